@@ -1,36 +1,185 @@
 import { Router } from "express";
-import { runProductPipeline } from "../services/runProductPipeline.js";
+import {
+  createEnrichmentJob,
+  getJob,
+  subscribeToJob,
+  type EnrichmentJob,
+  type EnrichmentJobEvent
+} from "../services/jobService.js";
+import { ENRICH_CONCURRENCY } from "../services/scheduler.js";
+import { parseStageCacheOptions } from "../services/stageCache.js";
+
+const SSE_HEARTBEAT_MS = 15_000;
 
 export const enrichRouter = Router();
 
+function createJobFromBody(req: any, res: any): EnrichmentJob | null {
+  const { mpns, manufacturer, concurrency, cache } = req.body ?? {};
+
+  if (!Array.isArray(mpns) || !manufacturer) {
+    res.status(400).json({
+      error: "Expected { mpns: string[], manufacturer: string }"
+    });
+    return null;
+  }
+
+  return createEnrichmentJob({
+    mpns,
+    manufacturer,
+    // Clients may ask for fewer parallel pipelines, never more than the server allows
+    concurrency:
+      Number.isInteger(concurrency) && concurrency > 0
+        ? Math.min(concurrency, ENRICH_CONCURRENCY)
+        : undefined,
+    // { bypass?, invalidate? }: true or a list of "discovery" | "crawl" | "synthesis"
+    cache: parseStageCacheOptions(cache)
+  });
+}
+
 export async function enrichHandler(req: any, res: any) {
   try {
-    const { mpns, manufacturer } = req.body;
+    // Batches run in the background; clients poll the job for progress
+    const job = createJobFromBody(req, res);
+    if (!job) return;
 
-    if (!Array.isArray(mpns) || !manufacturer) {
-      return res.status(400).json({
-        error: "Expected { mpns: string[], manufacturer: string }"
+    return res.status(202).json({
+      jobId: job.id,
+      status: job.status,
+      stats: job.stats,
+      statusUrl: `${req.baseUrl}/jobs/${job.id}`
+    });
+  } catch (err: any) {
+    console.error("ENRICH ERROR:", err);
+    return res.status(500).json({
+      error: err.message || "Internal error"
+    });
+  }
+}
+
+export async function enrichJobHandler(req: any, res: any) {
+  const job = getJob(req.params.id);
+
+  if (!job) {
+    return res.status(404).json({
+      error: `Unknown enrichment job: ${req.params.id}`
+    });
+  }
+
+  return res.json(job);
+}
+
+/**
+ * Streaming variant of POST /enrich: creates the job and streams its events
+ * as Server-Sent Events on the same response.
+ */
+export async function enrichStreamHandler(req: any, res: any) {
+  try {
+    const job = createJobFromBody(req, res);
+    if (!job) return;
+
+    streamJobEvents(job, res);
+  } catch (err: any) {
+    console.error("ENRICH STREAM ERROR:", err);
+    if (!res.headersSent) {
+      return res.status(500).json({
+        error: err.message || "Internal error"
       });
     }
+    res.end();
+  }
+}
+
+/**
+ * Attaches an SSE stream to an existing job (EventSource-friendly GET).
+ */
+export async function enrichJobEventsHandler(req: any, res: any) {
+  const job = getJob(req.params.id);
+
+  if (!job) {
+    return res.status(404).json({
+      error: `Unknown enrichment job: ${req.params.id}`
+    });
+  }
+
+  streamJobEvents(job, res);
+}
+
+/* -----------------------------
+   SSE helpers
+----------------------------- */
+
+function streamJobEvents(job: EnrichmentJob, res: any) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive"
+  });
+
+  // Snapshot first, so late subscribers see items that already finished
+  writeEvent(res, "job", {
+    jobId: job.id,
+    status: job.status,
+    stats: job.stats,
+    items: job.items.map(item => itemPayload(job.id, item))
+  });
+
+  if (job.status === "completed") {
+    writeEvent(res, "done", { jobId: job.id, stats: job.stats });
+    res.end();
+    return;
+  }
 
-    const results = [];
+  const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), SSE_HEARTBEAT_MS);
 
-    for (const mpn of mpns) {
-      const result = await runProductPipeline({
-        mpn,
-        manufacturer
+  const unsubscribe = subscribeToJob(job.id, (event: EnrichmentJobEvent) => {
+    if (event.type === "stage") {
+      writeEvent(res, "stage", {
+        jobId: event.jobId,
+        mpn: event.mpn,
+        stage: event.stage,
+        data: event.data,
+        confidenceBreakdown: event.confidenceBreakdown
+      });
+    } else if (event.type === "item") {
+      writeEvent(res, "item", {
+        ...itemPayload(event.jobId, event.item),
+        stats: event.stats
       });
-      results.push(result);
+    } else {
+      writeEvent(res, "done", { jobId: event.jobId, stats: event.stats });
+      close();
     }
+  });
 
-    return res.json({ results });
-  } catch (err: any) {
-    console.error("ENRICH ERROR:", err);
-    return res.status(500).json({
-      error: err.message || "Internal error"
-    });
+  function close() {
+    clearInterval(heartbeat);
+    unsubscribe();
+    res.end();
   }
+
+  // Client went away: stop writing, the job itself keeps running
+  res.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+}
+
+function itemPayload(jobId: string, item: EnrichmentJob["items"][number]) {
+  return {
+    jobId,
+    mpn: item.mpn,
+    status: item.status,
+    error: item.error,
+    final: item.result?.final ?? null
+  };
+}
+
+function writeEvent(res: any, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
 }
 
-// wire handler to router
-enrichRouter.post("/", enrichHandler);
\ No newline at end of file
+// wire handlers to router
+enrichRouter.post("/", enrichHandler);
+enrichRouter.post("/stream", enrichStreamHandler);
+enrichRouter.get("/jobs/:id", enrichJobHandler);
+enrichRouter.get("/jobs/:id/events", enrichJobEventsHandler);
@@ -0,0 +1,65 @@
+import { Router } from "express";
+import {
+  getStoredProduct,
+  listStoredProducts,
+  STORED_RESULT_STATUSES,
+  type StoredResultStatus
+} from "../services/resultStore.js";
+
+export const productsRouter = Router();
+
+/**
+ * Latest stored result per product, e.g. GET /products?status=usable.
+ * Optional filters: status, manufacturer.
+ */
+export async function listProductsHandler(req: any, res: any) {
+  const { status, manufacturer } = req.query ?? {};
+
+  if (status !== undefined && !STORED_RESULT_STATUSES.includes(status)) {
+    return res.status(400).json({
+      error: `Unknown status: ${status} (expected one of ${STORED_RESULT_STATUSES.join(", ")})`
+    });
+  }
+
+  try {
+    const products = listStoredProducts({
+      status: status as StoredResultStatus | undefined,
+      manufacturer: typeof manufacturer === "string" ? manufacturer : undefined
+    });
+
+    return res.json({ count: products.length, products });
+  } catch (err: any) {
+    console.error("PRODUCTS LIST ERROR:", err);
+    return res.status(500).json({
+      error: err.message || "Internal error"
+    });
+  }
+}
+
+/**
+ * Latest stored result for one product, with the history of earlier runs.
+ */
+export async function getProductHandler(req: any, res: any) {
+  const { manufacturer, mpn } = req.params;
+
+  try {
+    const product = getStoredProduct(manufacturer, mpn);
+
+    if (!product) {
+      return res.status(404).json({
+        error: `No stored result for ${manufacturer} ${mpn}`
+      });
+    }
+
+    return res.json(product);
+  } catch (err: any) {
+    console.error("PRODUCT LOOKUP ERROR:", err);
+    return res.status(500).json({
+      error: err.message || "Internal error"
+    });
+  }
+}
+
+// wire handlers to router
+productsRouter.get("/", listProductsHandler);
+productsRouter.get("/:manufacturer/:mpn", getProductHandler);
@@ -5,7 +5,8 @@
  * Verifies that when an RA MPN is provided:
  * 1. The pipeline searches using the base (non-RA) MPN
  * 2. The final normalized output retains the RA MPN
- * 3. Remote Alarm metadata is injected correctly
+ * 3. Remote Alarm metadata is injected correctly by the "surgepure-ra"
+ *    variant rule (data/variant-rules.json)
  *
  * Run:
  *   npx ts-node backend/scripts/ra_test.ts
@@ -37,6 +38,12 @@ async function main() {
     );
   }
 
+  if (product.variant?.baseMpn !== inputMpn.replace(/RA$/, "")) {
+    throw new Error(
+      `Expected base MPN ${inputMpn.replace(/RA$/, "")}, got ${product.variant?.baseMpn}`
+    );
+  }
+
   if (!product.specTable || product.specTable.length === 0) {
     throw new Error("Spec table is empty — base model inheritance failed");
   }
@@ -44,7 +51,7 @@ async function main() {
   const hasRemoteAlarm =
     product.specTable.some(
       (s: any) =>
-        s.name.toLowerCase().includes("remote alarm") &&
+        s.attribute.toLowerCase().includes("remote alarm") &&
         String(s.value).toLowerCase().includes("yes")
     ) ||
     JSON.stringify(product).toLowerCase().includes("remote alarm");
@@ -1,6 +1,7 @@
 import express from "express";
 import cors from "cors";
 import { enrichRouter } from "./api/enrich.js";
+import { productsRouter } from "./api/products.js";
 
 const app = express();
 
@@ -12,6 +13,7 @@ app.get("/health", (_req, res) => {
 });
 
 app.use("/enrich", enrichRouter);
+app.use("/products", productsRouter);
 
 const port = process.env.PORT || 3000;
 app.listen(port, () => {
@@ -0,0 +1,256 @@
+// services/attributeDictionary.ts
+/**
+ * Canonical spec attributes per product category.
+ *
+ * Every site labels the same attribute differently ("Surge Capacity",
+ * "Total Surge Capacity Ka", "Total Surge Capacity (kA @ 8x20 μsec pulse)").
+ * normalizeProducts resolves each incoming key here so sources merge on one
+ * name. Keys that resolve to nothing are kept as-is and reported as unmapped;
+ * add their labels as aliases below when they turn out to be real attributes.
+ *
+ * Aliases are matched case- and punctuation-insensitively, and trailing unit
+ * words from KEY_UNIT_TOKENS ("Mcov V", "Shipping Weight Lbs") are ignored,
+ * so only genuinely different wordings need listing. Bare generic words
+ * ("Model", "Type", "Size", "Enclosure", "Inputs") are deliberately not
+ * aliases: they label too many different things across sites, and a wrong
+ * canonical name is worse than an unmapped key.
+ */
+
+/* -----------------------------
+   Types
+----------------------------- */
+
+export type ProductCategory =
+  | "surge_protective_device"
+  | "power_supply"
+  | "io_module";
+
+export interface AttributeDefinition {
+  name: string;
+  aliases: string[];
+  // Canonical unit (see quantityParser) assumed for unitless numbers
+  unit?: string;
+}
+
+interface CategoryDefinition {
+  label: string;
+  // Lowercase phrases that identify the category in titles and descriptions
+  keywords: string[];
+  attributes: AttributeDefinition[];
+}
+
+// Unit words ignored at the end of a key ("Mcov V", "Total Surge Capacity
+// Ka"). Other single letters are left alone: in keys they are usually line
+// or phase labels ("Clamping Voltage N G"), not units.
+const KEY_UNIT_TOKENS = new Set([
+  "v", "vac", "vdc", "vrms", "kv", "mv",
+  "amps", "ka", "kaic", "ma",
+  "hz", "khz", "w", "kw", "va", "kva",
+  "lb", "lbs", "oz", "kg",
+  "in", "inch", "inches", "mm", "cm", "ft",
+  "ms", "sec", "usec"
+]);
+
+/* -----------------------------
+   Dictionary
+----------------------------- */
+
+// Attributes every category shares; category entries take precedence
+const COMMON_ATTRIBUTES: AttributeDefinition[] = [
+  { name: "MPN", aliases: ["Manufacturer Part Number", "Mfr Part Number", "Part Number", "Model Number"] },
+  { name: "SKU", aliases: ["Item Number", "Catalog Number"] },
+  { name: "UPC", aliases: ["GTIN", "EAN", "Barcode"] },
+  { name: "Manufacturer", aliases: ["Brand", "Mfr", "Vendor"] },
+  { name: "Series", aliases: ["Product Line", "Product Series", "Product Family"] },
+  { name: "Product Category", aliases: ["Product Type"] },
+  { name: "Weight", unit: "lb", aliases: ["Shipping Weight", "Net Weight", "Product Weight", "Item Weight"] },
+  { name: "Dimensions", unit: "in", aliases: ["Enclosure Size", "Enclosure Size (HxWxD)", "Overall Dimensions", "Dimensions (HxWxD)"] },
+  { name: "Height", unit: "in", aliases: ["Overall Height"] },
+  { name: "Width", unit: "in", aliases: ["Overall Width"] },
+  { name: "Depth", unit: "in", aliases: ["Overall Depth"] },
+  { name: "Operating Temperature", unit: "°C", aliases: ["Operating Temperature Range", "Temperature Range", "Ambient Temperature"] },
+  { name: "Warranty", aliases: ["Warranty Period", "Manufacturer Warranty"] },
+  { name: "Country of Origin", aliases: ["Made In"] },
+  { name: "Certifications", aliases: ["Certifications And Standards", "Standards", "Approvals", "Agency Approvals", "Listings", "Performance & Safety Testing Per"] }
+];
+
+const CATEGORIES: Record<ProductCategory, CategoryDefinition> = {
+  surge_protective_device: {
+    label: "Surge Protection Device",
+    keywords: ["surge protective", "surge protection", "surge protector", "surge suppress", "spd", "tvss"],
+    attributes: [
+      { name: "Nominal AC Line Voltage (VRMS)", unit: "V", aliases: ["Nominal AC Line Voltage", "Nominal Voltage", "System Voltage", "Line Voltage", "Rated Voltage", "Service Voltage", "Nominal Line Voltage"] },
+      { name: "AC Service Type", aliases: ["AC Service Types", "Service Type", "Electrical System", "System Configuration", "Phase Configuration"] },
+      { name: "Frequency", unit: "Hz", aliases: ["Frequency Range", "Frequency Range - USA/Euro Std", "Operating Frequency", "Line Frequency"] },
+      { name: "Protection Modes", aliases: ["Modes of Protection", "Protected Modes"] },
+      { name: "Max Surge Current Per Mode", unit: "kA", aliases: ["Max Me Surge Current Per Mode", "Max SE* Surge Current Per Mode/ Per Ø", "Maximum Surge Current Per Mode", "Surge Current Per Mode", "Peak Surge Current Per Mode"] },
+      { name: "Total Surge Capacity", unit: "kA", aliases: ["Surge Capacity", "Total Surge Capacity (kA @ 8x20 μsec pulse)", "Surge Current Capacity", "Peak Surge Current", "Max Surge Current", "Maximum Surge Current"] },
+      { name: "MCOV", unit: "V", aliases: ["Max Continuous Operating Voltage", "Max Continuous Operating Voltage (MCOV)", "Maximum Continuous Operating Voltage"] },
+      { name: "Voltage Protection Rating", unit: "V", aliases: ["VPR", "VPR Rating", "UL 1449 VPR"] },
+      { name: "Voltage Protection Rating L-L", unit: "V", aliases: ["VPR L-L", "VPR Line to Line"] },
+      { name: "Voltage Protection Rating L-N", unit: "V", aliases: ["VPR L-N", "VPR Line to Neutral"] },
+      { name: "Voltage Protection Rating N-G", unit: "V", aliases: ["VPR N-G", "VPR Neutral to Ground"] },
+      { name: "Clamping Voltage L-L", unit: "V", aliases: ["Max. Clamping Voltage - L-L", "Clamping Voltage Line to Line", "Clamping Voltage V L L"] },
+      { name: "Clamping Voltage L-N", unit: "V", aliases: ["Max. Clamping Voltage - L-N", "Clamping Voltage Line to Neutral", "Clamping Voltage V L N"] },
+      { name: "Clamping Voltage N-G", unit: "V", aliases: ["Max. Clamping Voltage - N-G", "Clamping Voltage Neutral to Ground", "Clamping Voltage V N G"] },
+      { name: "SCCR", unit: "kAIC", aliases: ["Short Circuit Current Rating", "Short-Circuit Current Rating"] },
+      { name: "Overcurrent Protection", aliases: ["Overcurrent Protection Guidance", "Breaker Requirement"] },
+      { name: "SPD Type", aliases: ["UL Type", "Type Rating", "Safety Rating Statement", "Safety Statement"] },
+      { name: "Protection Element Type", aliases: ["Surge Path Technology", "Protection Technology", "Protection Element"] },
+      { name: "Protection Architecture", aliases: ["Protection Design"] },
+      { name: "Enclosure Rating", aliases: ["Enclosure Type", "NEMA Rating", "NEMA Enclosure Rating"] },
+      { name: "Mounting Knockout", unit: "in", aliases: ["Knockout", "Knockout Size"] },
+      { name: "IEEE Location", aliases: ["IEEE Locations", "IEEE Location Category", "IEEE Application Categories"] },
+      { name: "Leads", aliases: ["Lead Wires", "Wire Leads", "Conductors"] },
+      { name: "Lead Configuration", aliases: ["Leads Configuration", "Wiring Configuration"] },
+      { name: "Status Indicators", aliases: ["Protection Status Indicators", "LED Indicators", "Status LEDs"] },
+      { name: "Remote Alarm", aliases: ["Alarm Contacts", "Dry Contacts", "Remote Monitoring"] }
+    ]
+  },
+  power_supply: {
+    label: "Power Supply",
+    keywords: ["power supply", "power supplies", "psu", "dc converter"],
+    attributes: [
+      { name: "Input Voltage", unit: "V", aliases: ["Input Voltage Range", "AC Input Voltage"] },
+      { name: "Input Frequency", unit: "Hz", aliases: ["Input Frequency Range", "AC Input Frequency"] },
+      { name: "Output Voltage", unit: "V", aliases: ["DC Output Voltage", "Rated Output Voltage", "Vout"] },
+      { name: "Output Current", unit: "A", aliases: ["Rated Output Current", "DC Output Current", "Iout"] },
+      { name: "Output Power", unit: "W", aliases: ["Rated Power", "Wattage", "Max Output Power"] },
+      { name: "Efficiency", unit: "%", aliases: ["Typical Efficiency"] },
+      { name: "Number of Outputs", aliases: ["Output Channels", "Number of Output Channels"] },
+      { name: "Mounting", aliases: ["Mounting Type", "Mounting Style"] }
+    ]
+  },
+  io_module: {
+    label: "I/O Module",
+    keywords: ["i/o module", "input module", "output module", "digital input", "digital output", "analog input", "analog output"],
+    attributes: [
+      { name: "Number of Inputs", aliases: ["Input Points", "Number of Input Points", "Number of Input Channels"] },
+      { name: "Number of Outputs", aliases: ["Output Points", "Number of Output Points", "Number of Output Channels"] },
+      { name: "Input Type", aliases: ["Input Signal Type"] },
+      { name: "Output Type", aliases: ["Output Signal Type"] },
+      { name: "Input Voltage Range", unit: "V", aliases: ["Input Voltage", "On-State Voltage Range", "Operating Voltage Range"] },
+      { name: "Backplane Current", unit: "mA", aliases: ["Backplane Current Load", "Current Draw", "Backplane Current 5V"] },
+      { name: "Isolation Voltage", unit: "V", aliases: ["Isolation Rating", "Isolation Voltage Rating"] },
+      { name: "Input Delay Time", unit: "ms", aliases: ["Input Delay", "Signal Delay", "Filter Time"] },
+      { name: "Module Type", aliases: ["Product Type", "I/O Module Type"] }
+    ]
+  }
+};
+
+/* -----------------------------
+   Category detection
+----------------------------- */
+
+export function categoryLabel(category: ProductCategory | null): string | null {
+  return category ? CATEGORIES[category].label : null;
+}
+
+/**
+ * Picks the category whose keywords appear most often in the given text
+ * (datasheet classification, titles, descriptions). Null when nothing matches.
+ */
+export function detectProductCategory(texts: string[]): ProductCategory | null {
+  const haystack = ` ${texts.join(" ").toLowerCase()} `;
+  let best: ProductCategory | null = null;
+  let bestHits = 0;
+
+  for (const [category, definition] of Object.entries(CATEGORIES) as [ProductCategory, CategoryDefinition][]) {
+    const hits = definition.keywords.reduce(
+      (sum, keyword) => sum + countWord(haystack, keyword),
+      0
+    );
+    if (hits > bestHits) {
+      best = category;
+      bestHits = hits;
+    }
+  }
+
+  return best;
+}
+
+/* -----------------------------
+   Attribute resolution
+----------------------------- */
+
+const indexCache = new Map<ProductCategory | "common", Map<string, AttributeDefinition>>();
+
+/**
+ * Resolves a raw spec key to its canonical attribute, or null when the
+ * dictionary has no entry. Without a category only common attributes match,
+ * so a key is never forced into the wrong category's vocabulary.
+ */
+export function resolveAttribute(
+  key: string,
+  category: ProductCategory | null
+): AttributeDefinition | null {
+  const indexes = [
+    ...(category ? [attributeIndex(category)] : []),
+    attributeIndex("common")
+  ];
+
+  for (const candidate of candidateKeys(key)) {
+    for (const index of indexes) {
+      const match = index.get(candidate);
+      if (match) return match;
+    }
+  }
+
+  return null;
+}
+
+function attributeIndex(scope: ProductCategory | "common"): Map<string, AttributeDefinition> {
+  const cached = indexCache.get(scope);
+  if (cached) return cached;
+
+  const attributes = scope === "common" ? COMMON_ATTRIBUTES : CATEGORIES[scope].attributes;
+  const index = new Map<string, AttributeDefinition>();
+
+  for (const attribute of attributes) {
+    for (const label of [attribute.name, ...attribute.aliases]) {
+      const key = matchKey(label);
+      if (!index.has(key)) index.set(key, attribute);
+    }
+  }
+
+  indexCache.set(scope, index);
+  return index;
+}
+
+/**
+ * Lookup forms of a raw key, most specific first:
+ * as written, without parentheses, a parenthesized abbreviation alone
+ * ("... (MCOV)", but not "... (Model)"), and each of those with trailing
+ * unit tokens removed.
+ */
+function candidateKeys(key: string): string[] {
+  const withoutParens = key.replace(/\([^)]*\)/g, " ");
+  const parenthesized = Array.from(key.matchAll(/\(([^)]*)\)/g), m => m[1].trim()).filter(part =>
+    /^[A-Z][A-Z0-9-]{1,}$/.test(part)
+  );
+
+  const forms = [key, withoutParens, ...parenthesized].map(matchKey);
+  const stripped = forms.map(stripTrailingUnits);
+
+  return Array.from(new Set([...forms, ...stripped])).filter(Boolean);
+}
+
+function stripTrailingUnits(normalizedKey: string): string {
+  const tokens = normalizedKey.split(" ");
+  while (tokens.length > 1 && KEY_UNIT_TOKENS.has(tokens[tokens.length - 1])) {
+    tokens.pop();
+  }
+  return tokens.join(" ");
+}
+
+function matchKey(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function countWord(haystack: string, phrase: string): number {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+  return haystack.match(new RegExp(`(?<![a-z0-9])${escaped}(?![a-z0-9])`, "g"))?.length ?? 0;
+}
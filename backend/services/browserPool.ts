@@ -0,0 +1,263 @@
+// services/browserPool.ts
+import { chromium, type Browser, type BrowserContext, type Page } from "playwright";
+import { CRAWLER_USER_AGENT } from "./crawlPolicy.js";
+
+/**
+ * Shared headless Chromium for JS rendering.
+ *
+ * - One browser per process, launched on first use and closed again after
+ *   BROWSER_IDLE_MS (default 30s) without pages, so scripts can exit.
+ * - At most BROWSER_MAX_PAGES (default 2) pages render at once; further
+ *   callers wait for a slot.
+ * - Contexts are reused for BROWSER_CONTEXT_MAX_USES pages (default 20)
+ *   and then replaced, which keeps cookies and memory from piling up.
+ * - A crashed or disconnected browser is dropped and relaunched; the page
+ *   that was rendering when it died is retried once.
+ * - Images, fonts, media and known analytics hosts are aborted, since
+ *   extraction only needs the DOM.
+ */
+
+/* -----------------------------
+   Configuration
+----------------------------- */
+
+const MAX_PAGES = positiveInt(process.env.BROWSER_MAX_PAGES, 2);
+const CONTEXT_MAX_USES = positiveInt(process.env.BROWSER_CONTEXT_MAX_USES, 20);
+const IDLE_MS = positiveInt(process.env.BROWSER_IDLE_MS, 30_000);
+
+const BLOCKED_RESOURCE_TYPES = new Set(["image", "font", "media"]);
+
+const BLOCKED_HOSTS = [
+  "google-analytics.com",
+  "googletagmanager.com",
+  "doubleclick.net",
+  "googlesyndication.com",
+  "facebook.net",
+  "connect.facebook.com",
+  "hotjar.com",
+  "clarity.ms",
+  "segment.io",
+  "segment.com",
+  "hs-analytics.net",
+  "hs-scripts.com",
+  "nr-data.net",
+  "quantserve.com",
+  "scorecardresearch.com",
+  "linkedin.com/px",
+  "bing.com/bat",
+  "bat.bing.com"
+];
+
+/* -----------------------------
+   Pool state
+----------------------------- */
+
+interface PooledContext {
+  context: BrowserContext;
+  uses: number;
+}
+
+let browser: Promise<Browser> | null = null;
+let idleContexts: PooledContext[] = [];
+
+let activePages = 0;
+const waiters: Array<() => void> = [];
+let idleTimer: NodeJS.Timeout | null = null;
+
+/* -----------------------------
+   Public API
+----------------------------- */
+
+/**
+ * Runs `task` with a fresh page from the pool. The page is closed afterwards;
+ * its context goes back to the pool unless it has been used up.
+ */
+export async function withBrowserPage<T>(task: (page: Page) => Promise<T>): Promise<T> {
+  await acquireSlot();
+
+  try {
+    try {
+      return await renderOnce(task);
+    } catch (err) {
+      if (!isBrowserGone(err)) throw err;
+
+      console.warn(`[browserPool] browser went away, relaunching: ${String(err)}`);
+      resetBrowser();
+      return await renderOnce(task);
+    }
+  } finally {
+    releaseSlot();
+  }
+}
+
+/**
+ * Closes the shared browser, e.g. on shutdown. The next page relaunches it.
+ */
+export async function closeBrowserPool(): Promise<void> {
+  if (idleTimer) clearTimeout(idleTimer);
+  idleTimer = null;
+
+  const current = browser;
+  browser = null;
+  idleContexts = [];
+
+  if (current) {
+    try {
+      await (await current).close();
+    } catch {
+      // Already gone
+    }
+  }
+}
+
+/* -----------------------------
+   Rendering
+----------------------------- */
+
+async function renderOnce<T>(task: (page: Page) => Promise<T>): Promise<T> {
+  const pooled = await checkoutContext();
+  const page = await pooled.context.newPage();
+  let healthy = true;
+
+  try {
+    return await task(page);
+  } catch (err) {
+    healthy = !isBrowserGone(err);
+    throw err;
+  } finally {
+    await page.close().catch(() => {});
+    await checkinContext(pooled, healthy);
+  }
+}
+
+async function checkoutContext(): Promise<PooledContext> {
+  const pooled = idleContexts.pop();
+  if (pooled) {
+    pooled.uses++;
+    return pooled;
+  }
+
+  // Same identity as plain fetches, so robots.txt rules for it apply here too
+  const context = await (await launchBrowser()).newContext({ userAgent: CRAWLER_USER_AGENT });
+  await context.route("**/*", route => {
+    const request = route.request();
+    return shouldBlock(request.resourceType(), request.url()) ? route.abort() : route.continue();
+  });
+
+  return { context, uses: 1 };
+}
+
+async function checkinContext(pooled: PooledContext, healthy: boolean) {
+  if (healthy && pooled.uses < CONTEXT_MAX_USES && pooled.context.browser()?.isConnected()) {
+    idleContexts.push(pooled);
+    return;
+  }
+
+  await pooled.context.close().catch(() => {});
+}
+
+// Blocked entries are a host, matched with its subdomains, optionally
+// followed by a path prefix ("linkedin.com/px")
+export function shouldBlock(resourceType: string, url: string): boolean {
+  if (BLOCKED_RESOURCE_TYPES.has(resourceType)) return true;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+
+  const hostname = parsed.hostname.toLowerCase();
+  const path = parsed.pathname.toLowerCase();
+
+  return BLOCKED_HOSTS.some(entry => {
+    const slash = entry.indexOf("/");
+    const host = slash < 0 ? entry : entry.slice(0, slash);
+    const prefix = slash < 0 ? "" : entry.slice(slash);
+
+    if (hostname !== host && !hostname.endsWith(`.${host}`)) return false;
+    return !prefix || path === prefix || path.startsWith(`${prefix}/`);
+  });
+}
+
+/* -----------------------------
+   Browser lifecycle
+----------------------------- */
+
+function launchBrowser(): Promise<Browser> {
+  if (browser) return browser;
+
+  const launching = chromium.launch({ headless: true }).then(instance => {
+    instance.on("disconnected", () => {
+      // Only forget it if it is still the current browser
+      if (browser === launching) resetBrowser();
+    });
+    return instance;
+  });
+
+  // A failed launch must not stick; the next caller tries again
+  launching.catch(() => {
+    if (browser === launching) browser = null;
+  });
+
+  browser = launching;
+  return launching;
+}
+
+function resetBrowser() {
+  const current = browser;
+  browser = null;
+  idleContexts = [];
+
+  current?.then(instance => instance.close()).catch(() => {});
+}
+
+function isBrowserGone(err: unknown): boolean {
+  const message = String((err as any)?.message ?? err);
+  return /browser has been closed|target (page, context or browser )?(has been )?closed|browser closed|crashed/i.test(
+    message
+  );
+}
+
+/* -----------------------------
+   Page slots
+----------------------------- */
+
+async function acquireSlot(): Promise<void> {
+  if (idleTimer) {
+    clearTimeout(idleTimer);
+    idleTimer = null;
+  }
+
+  if (activePages < MAX_PAGES) {
+    activePages++;
+    return;
+  }
+
+  // Slot is handed over directly by releaseSlot()
+  await new Promise<void>(resolve => waiters.push(resolve));
+}
+
+function releaseSlot() {
+  const next = waiters.shift();
+  if (next) {
+    next();
+    return;
+  }
+
+  activePages--;
+  if (activePages === 0) {
+    idleTimer = setTimeout(() => void closeBrowserPool(), IDLE_MS);
+    idleTimer.unref();
+  }
+}
+
+/* -----------------------------
+   Helpers
+----------------------------- */
+
+function positiveInt(raw: string | undefined, fallback: number): number {
+  const n = Number(raw);
+  return Number.isInteger(n) && n > 0 ? n : fallback;
+}
@@ -0,0 +1,192 @@
+// services/citations.ts
+import { resolveAttribute } from "./attributeDictionary.js";
+import type { NormalizedProduct } from "./normalizeProduct.js";
+import type { SpecAttribute } from "../types.js";
+
+/**
+ * Links synthesized claims back to the sources they rest on.
+ *
+ * Synthesis never sees provenance (see buildSynthesisInput), so attribution
+ * happens afterwards and deterministically: a claim is cited to the normalized
+ * specs and verbatim sections it restates. A claim nothing supports gets an
+ * empty citation list; it is left for review rather than cited loosely.
+ */
+
+/* -----------------------------
+   Types
+----------------------------- */
+
+export interface CitationSource {
+  id: number;
+  title: string;
+  // Page/PDF URL, or "datasheet:<mpn>#<json pointer>" for local datasheet JSON
+  uri: string;
+}
+
+export interface CitedClaim {
+  text: string;
+  sourceIds: number[];
+}
+
+export interface ProductCitations {
+  sources: CitationSource[];
+  citationMap: Record<number, string>;
+  keyFeatures: CitedClaim[];
+  overview: CitedClaim[];
+  specTable: SpecAttribute[];
+}
+
+// Share of a sentence's content words a verbatim section must contain
+const TEXT_SUPPORT_THRESHOLD = 0.5;
+
+/* -----------------------------
+   Public API
+----------------------------- */
+
+export function citeProductContent(params: {
+  normalized: NormalizedProduct;
+  keyFeatures: string[];
+  overview: string;
+  specTable: SpecAttribute[];
+}): ProductCitations {
+  const { normalized } = params;
+  const sources: CitationSource[] = [];
+  const ids = new Map<string, number>();
+
+  const cite = (uri: string): number => {
+    let id = ids.get(uri);
+    if (id === undefined) {
+      id = sources.length + 1;
+      ids.set(uri, id);
+      sources.push({ id, title: sourceTitle(uri), uri });
+    }
+    return id;
+  };
+
+  const citeAll = (uris: string[]) =>
+    Array.from(new Set(uris)).map(cite).sort((a, b) => a - b);
+
+  const specTable = params.specTable.map(row => {
+    const spec = findSpec(normalized, row.attribute);
+    return spec ? { ...row, sourceId: cite(spec.sources[0]) } : row;
+  });
+
+  const keyFeatures = params.keyFeatures.map(text => ({
+    text,
+    sourceIds: citeAll(featureSources(normalized, text))
+  }));
+
+  const overview = splitSentences(params.overview).map(text => ({
+    text,
+    sourceIds: citeAll(textSources(normalized, text))
+  }));
+
+  return {
+    sources,
+    citationMap: Object.fromEntries(sources.map(s => [s.id, s.uri])),
+    keyFeatures,
+    overview,
+    specTable
+  };
+}
+
+/* -----------------------------
+   Matching
+----------------------------- */
+
+/**
+ * "Label: value" features cite the spec they name; anything else is
+ * matched like free text.
+ */
+function featureSources(normalized: NormalizedProduct, feature: string): string[] {
+  const idx = feature.indexOf(":");
+  if (idx !== -1) {
+    const spec = findSpec(normalized, feature.slice(0, idx).trim());
+    if (spec) return [spec.sources[0]];
+  }
+  return textSources(normalized, feature);
+}
+
+function textSources(normalized: NormalizedProduct, text: string): string[] {
+  const lower = text.toLowerCase();
+  const found: string[] = [];
+
+  // Spec values restated in the text ("480", "NEMA 4X", "200kAIC")
+  for (const spec of Object.values(normalized.specs)) {
+    const value = spec.value.trim().toLowerCase();
+    if (value.length < 3 || /^(yes|no|n\/a)$/.test(value)) continue;
+    if (containsToken(lower, value)) found.push(spec.sources[0]);
+  }
+
+  // Sentences paraphrasing verbatim source text
+  const words = contentWords(text);
+  if (words.size > 0) {
+    for (const section of normalized.verbatimSections) {
+      const sectionWords = contentWords(section.text);
+      let shared = 0;
+      for (const word of words) {
+        if (sectionWords.has(word)) shared++;
+      }
+      if (shared / words.size >= TEXT_SUPPORT_THRESHOLD) found.push(section.source);
+    }
+  }
+
+  return found;
+}
+
+function findSpec(normalized: NormalizedProduct, label: string) {
+  const direct =
+    normalized.specs[label] ??
+    Object.entries(normalized.specs).find(([key]) => key.toLowerCase() === label.toLowerCase())?.[1];
+  if (direct) return direct;
+
+  // Synthesis may restate a spec under one of its aliases
+  const canonical = resolveAttribute(label, normalized.category)?.name;
+  return canonical ? normalized.specs[canonical] ?? null : null;
+}
+
+/* -----------------------------
+   Helpers
+----------------------------- */
+
+function sourceTitle(uri: string): string {
+  const datasheet = uri.match(/^datasheet:([^#]+)(?:#(.*))?$/);
+  if (datasheet) {
+    return datasheet[2]
+      ? `Datasheet JSON ${datasheet[1]} (${datasheet[2]})`
+      : `Datasheet JSON ${datasheet[1]}`;
+  }
+
+  if (uri.startsWith("variant:")) {
+    return `Variant rule ${uri.slice("variant:".length)}`;
+  }
+
+  try {
+    const url = new URL(uri);
+    const host = url.hostname.replace(/^www\./, "");
+    return url.pathname.toLowerCase().endsWith(".pdf") ? `${host} (PDF)` : host;
+  } catch {
+    return uri;
+  }
+}
+
+function splitSentences(text: string): string[] {
+  return (text ?? "")
+    .split(/(?<=[.!?])\s+(?=[A-Z0-9])/)
+    .map(s => s.trim())
+    .filter(Boolean);
+}
+
+function contentWords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length >= 4)
+  );
+}
+
+function containsToken(haystack: string, needle: string): boolean {
+  const escaped = needle.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(?<![a-z0-9])${escaped}(?![a-z0-9])`).test(haystack);
+}
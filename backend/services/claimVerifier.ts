@@ -0,0 +1,305 @@
+// services/claimVerifier.ts
+import { canonicalUnit, parseQuantity, toBaseUnit } from "./quantityParser.js";
+import type { SynthesisInput, SynthesisOutput } from "./synthesizeService.js";
+
+/**
+ * Post-synthesis fact check.
+ *
+ * The prompt forbids new numbers, standards and certifications, but models
+ * still produce them. Every such claim in the generated copy must appear in
+ * the synthesis input (spec labels and values, verbatim descriptors, title).
+ * A number with a unit is only supported by the same quantity (or by a bare
+ * number), so "10 A" is not backed by "10 V". Unsupported claims are stripped
+ * with their sentence (or list item) by default; SYNTHESIS_CLAIM_MODE=flag
+ * keeps the text and only reports them.
+ */
+
+/* -----------------------------
+   Types
+----------------------------- */
+
+export type ClaimKind = "number" | "standard" | "certification";
+
+export type VerifiedField =
+  | "overview"
+  | "shortDescription"
+  | "longDescription"
+  | "keyFeatures"
+  | "bulletHighlights"
+  | "seoDescription"
+  | "disclaimers";
+
+export interface Claim {
+  kind: ClaimKind;
+  text: string;
+}
+
+export interface UnsupportedClaim extends Claim {
+  field: VerifiedField;
+  // Sentence or list item the claim appeared in
+  context: string;
+  stripped: boolean;
+}
+
+/* -----------------------------
+   Patterns
+----------------------------- */
+
+// "UL 1449", "ANSI/IEEE C62.41", "CSA C22.2", "NEMA 4X", "IEC 61643-11", "IP65"
+const STANDARD_RE =
+  /\b(?:ANSI\/IEEE|ANSI|IEEE|UL|CSA|IEC|EN|NEMA|NFPA|ISO)\s?(?:Std\.?\s?)?[A-Z]?\d+(?:[.-]\d+)*[A-Z]?\b|\bIP\d{2}\b/g;
+
+// Case-sensitive on purpose: "REACH" is a regulation, "reach" is a verb
+const CERTIFICATION_RE =
+  /(?<![\w-])(?:RoHS|REACH|CE|cULus|cURus|c-?ETL-?us|ETL|TÜV|UL Listed|UL Recognized|CSA Certified|Energy Star)(?![\w-])/g;
+
+const NUMBER_TOKEN_RE =
+  /^((?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?(?:\/(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?)*)([A-Za-zµμ°Ω%"”]*)$/;
+
+// Relative tolerance when a claim restates a value in another unit
+const UNIT_TOLERANCE = 0.01;
+
+/* -----------------------------
+   Public API
+----------------------------- */
+
+export function claimGuardMode(): "strip" | "flag" {
+  return (process.env.SYNTHESIS_CLAIM_MODE || "strip").toLowerCase() === "flag"
+    ? "flag"
+    : "strip";
+}
+
+/**
+ * Pulls numbers (with units), standards and certifications out of text.
+ * Identifiers such as MPNs ("M1-1480-3") and ordinals ("5th") are not claims.
+ */
+export function extractClaims(text: string): Claim[] {
+  const claims: Claim[] = [];
+  let rest = text ?? "";
+
+  for (const match of rest.match(STANDARD_RE) ?? []) {
+    claims.push({ kind: "standard", text: match });
+  }
+  rest = rest.replace(STANDARD_RE, " ");
+
+  for (const match of rest.match(CERTIFICATION_RE) ?? []) {
+    claims.push({ kind: "certification", text: match });
+  }
+  rest = rest.replace(CERTIFICATION_RE, " ");
+
+  const tokens = rest
+    .split(/\s+/)
+    .map(t => t.replace(/^[(\["'“‘]+/, "").replace(/[.,;:!?)\]'’]+$/, ""));
+
+  for (let i = 0; i < tokens.length; i++) {
+    // "10-year", "3-phase": the number is the claim
+    const hyphenated = tokens[i].match(/^(\d+(?:\.\d+)?)-[a-z]+$/);
+    if (hyphenated) {
+      claims.push({ kind: "number", text: hyphenated[1] });
+      continue;
+    }
+
+    const match = tokens[i].match(NUMBER_TOKEN_RE);
+    if (!match) continue;
+
+    const [, number, suffix] = match;
+
+    if (suffix) {
+      // "480V" counts, "4X" or "5th" is a designation
+      if (canonicalUnit(suffix)) claims.push({ kind: "number", text: tokens[i] });
+      continue;
+    }
+
+    const next = tokens[i + 1] ?? "";
+    claims.push({
+      kind: "number",
+      text: canonicalUnit(next) ? `${number} ${next}` : number
+    });
+  }
+
+  return claims;
+}
+
+/**
+ * Checks every generated text field against the input and returns the
+ * cleaned output plus every unsupported claim. Prose loses the sentence,
+ * lists lose the item.
+ */
+export function verifyClaims(
+  input: SynthesisInput,
+  output: SynthesisOutput,
+  mode: "strip" | "flag" = claimGuardMode()
+): { output: SynthesisOutput; unsupported: UnsupportedClaim[] } {
+  const evidence = buildEvidence(input);
+  const unsupported: UnsupportedClaim[] = [];
+  const strip = mode === "strip";
+
+  const check = (field: VerifiedField, context: string): boolean => {
+    const missing = extractClaims(context).filter(claim => !isSupported(claim, evidence));
+    for (const claim of missing) {
+      unsupported.push({ ...claim, field, context, stripped: strip });
+    }
+    return missing.length === 0;
+  };
+
+  const checkProse = (field: VerifiedField, text: string): string => {
+    const paragraphs = (text ?? "").split(/\n\s*\n/).map(paragraph =>
+      splitSentences(paragraph)
+        .filter(sentence => check(field, sentence) || !strip)
+        .join(" ")
+    );
+    return paragraphs.filter(Boolean).join("\n\n");
+  };
+
+  const checkList = (field: VerifiedField, items: string[]): string[] =>
+    (items ?? []).filter(item => check(field, item) || !strip);
+
+  return {
+    output: {
+      ...output,
+      keyFeatures: checkList("keyFeatures", output.keyFeatures),
+      bulletHighlights: checkList("bulletHighlights", output.bulletHighlights),
+      overview: checkProse("overview", output.overview),
+      shortDescription: checkProse("shortDescription", output.shortDescription),
+      longDescription: checkProse("longDescription", output.longDescription),
+      seoDescription: checkProse("seoDescription", output.seoDescription),
+      disclaimers: checkList("disclaimers", output.disclaimers)
+    },
+    unsupported
+  };
+}
+
+/* -----------------------------
+   Evidence
+----------------------------- */
+
+// A number seen in the input with the unit written after it (or implied by
+// its spec label); unit is null for bare numbers such as "50/60"
+interface EvidenceNumber {
+  value: number;
+  unit: string | null;
+}
+
+interface Evidence {
+  numbers: EvidenceNumber[];
+  // Uppercased, alphanumerics only, for standards
+  compact: string;
+  // Lowercased words separated by single spaces, for certifications
+  words: string;
+}
+
+function buildEvidence(input: SynthesisInput): Evidence {
+  const texts = [
+    input.mpn,
+    input.manufacturer,
+    input.canonicalTitle,
+    ...Object.keys(input.specs ?? {}),
+    ...(input.verbatimDescriptors ?? [])
+  ]
+    .filter(Boolean)
+    .map(String);
+
+  const numbers = texts.flatMap(text => scanNumbers(text, null));
+  for (const [label, value] of Object.entries(input.specs ?? {})) {
+    if (!value) continue;
+    // "Nominal AC Line Voltage (VRMS)": "480" is 480 V
+    numbers.push(...scanNumbers(String(value), parseQuantity(String(value), { key: label }).unit));
+    texts.push(String(value));
+  }
+
+  const joined = texts.join(" \n ");
+  return { numbers, compact: compact(joined), words: ` ${words(joined)} ` };
+}
+
+function isSupported(claim: Claim, evidence: Evidence): boolean {
+  if (claim.kind === "number") {
+    const unit = claimUnit(claim.text);
+    return numberValues(claim.text).every(value =>
+      evidence.numbers.some(e => sameQuantity(e, { value, unit }))
+    );
+  }
+
+  // Short marks ("CE") would match inside other words, so compare whole words
+  if (claim.kind === "certification") {
+    return evidence.words.includes(` ${words(claim.text)} `);
+  }
+
+  if (evidence.compact.includes(compact(claim.text))) return true;
+
+  // "ANSI/IEEE C62.41" is supported by "ANSI/IEEE C62.11, C62.41"
+  const designation = claim.text.match(/[A-Z]?\d+(?:[.-]\d+)*[A-Z]?$/)?.[0];
+  const body = claim.text.split(/[\s/]/)[0];
+  return (
+    !!designation &&
+    evidence.compact.includes(compact(designation)) &&
+    evidence.words.includes(` ${words(body)} `)
+  );
+}
+
+// A bare number on either side matches by value; otherwise the units must
+// measure the same thing ("240 kA" is "240,000 amps", "10 A" is not "10 V")
+function sameQuantity(evidence: EvidenceNumber, claim: EvidenceNumber): boolean {
+  if (!evidence.unit || !claim.unit) return evidence.value === claim.value;
+
+  const e = toBaseUnit(evidence.value, evidence.unit);
+  const c = toBaseUnit(claim.value, claim.unit);
+  // Units without a scale (°C, °F) only match themselves
+  if (!e || !c) return evidence.unit === claim.unit && evidence.value === claim.value;
+
+  return (
+    e.dimension === c.dimension &&
+    Math.abs(e.value - c.value) <= UNIT_TOLERANCE * Math.max(Math.abs(e.value), Math.abs(c.value))
+  );
+}
+
+/* -----------------------------
+   Helpers
+----------------------------- */
+
+function numberValues(text: string): number[] {
+  const numeric = text.split(/\s/)[0].match(NUMBER_TOKEN_RE)?.[1] ?? "";
+  return numeric.split("/").map(n => Number(n.replace(/,/g, "")));
+}
+
+function claimUnit(text: string): string | null {
+  const [token, next] = text.split(/\s/);
+  const suffix = token.match(NUMBER_TOKEN_RE)?.[2] || next;
+  return suffix ? canonicalUnit(suffix) : null;
+}
+
+// Every number in `text` with the unit written after it; numbers without one
+// take `fallbackUnit`. "120/208/240V" gives all three values in volts.
+function scanNumbers(text: string, fallbackUnit: string | null): EvidenceNumber[] {
+  // Digits inside identifiers ("M1", "C62.41") are not numeric evidence
+  const plain = text.replace(/(\d),(?=\d{3}\b)/g, "$1");
+  const numbers: EvidenceNumber[] = [];
+
+  for (const match of plain.matchAll(/(?<![A-Za-z\d.])(\d+(?:\.\d+)?)([¼½¾])?/g)) {
+    const after = plain.slice(match.index + match[0].length);
+    const suffix = after.match(/^(?:\/[\d.]+[¼½¾]?)*\s?([A-Za-zµμ°Ω%"”″]+)/)?.[1];
+    const unit = (suffix && canonicalUnit(suffix)) || fallbackUnit;
+
+    numbers.push({ value: Number(match[1]), unit });
+    if (match[2]) {
+      const fraction = { "¼": 0.25, "½": 0.5, "¾": 0.75 }[match[2]];
+      numbers.push({ value: Number(match[1]) + fraction, unit });
+    }
+  }
+
+  return numbers;
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+(?=[A-Z0-9])/)
+    .map(s => s.trim())
+    .filter(Boolean);
+}
+
+function words(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9ü]+/g, " ").trim();
+}
+
+function compact(text: string): string {
+  return text.toUpperCase().replace(/[^A-Z0-9Ü]/g, "");
+}
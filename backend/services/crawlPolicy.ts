@@ -0,0 +1,349 @@
+// services/crawlPolicy.ts
+import fetch from "node-fetch";
+import { withRecording } from "./httpFixtures.js";
+
+/**
+ * Crawl policy: which URLs crawlService may fetch, and how slowly.
+ *
+ * - CRAWL_DENIED_DOMAINS / CRAWL_ALLOWED_DOMAINS (comma-separated) block
+ *   hosts outright or restrict crawling to the listed ones. "example.com"
+ *   also covers its subdomains; the deny list wins.
+ * - robots.txt is fetched once per host, kept for ROBOTS_CACHE_TTL_MS
+ *   (default 24h) and honoured for the "PartlyBot" group, else "*".
+ *   Crawl-delay from the same group slows the host down in the scheduler.
+ *
+ * Plain fetches follow redirects one hop at a time (followRedirects), so
+ * every Location is checked before it is requested, up to MAX_REDIRECTS
+ * hops. The browser follows redirects itself; where a render ended up is
+ * checked afterwards (checkRedirectTarget). Both send the same user agent.
+ *
+ * Missing robots.txt (4xx) allows everything. A 5xx or network failure is
+ * treated as a full disallow, as RFC 9309 asks, and retried after
+ * ROBOTS_ERROR_TTL_MS (default 10 min).
+ */
+
+/* -----------------------------
+   Types
+----------------------------- */
+
+export const CRAWLER_USER_AGENT = "Mozilla/5.0 (compatible; PartlyBot/1.0; +https://partly.ai)";
+const ROBOTS_AGENT_TOKEN = "partlybot";
+
+export type CrawlBlockReason = "domain_denied" | "robots_disallowed" | "robots_unreachable";
+
+export interface CrawlDecision {
+  allowed: boolean;
+  reason?: CrawlBlockReason;
+  // Minimum gap between requests to the host, from robots.txt Crawl-delay
+  crawlDelayMs?: number;
+}
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelayMs?: number;
+}
+
+export interface RobotsPolicy {
+  // "unreachable" disallows everything until the entry expires
+  status: "parsed" | "missing" | "unreachable";
+  rules: RobotsRule[];
+  crawlDelayMs?: number;
+}
+
+// One redirected request, as made with redirect: "manual"
+export interface RedirectHop {
+  status: number;
+  location?: string | null;
+}
+
+export interface FollowedRequest<T> {
+  finalUrl: string;
+  // Absent when a redirect target was refused before it was requested
+  response?: T;
+  blocked?: CrawlBlockReason;
+}
+
+export const MAX_REDIRECTS = 5;
+
+const ROBOTS_TIMEOUT_MS = 5_000;
+const ROBOTS_CACHE_TTL_MS = Number(process.env.ROBOTS_CACHE_TTL_MS) || 24 * 60 * 60 * 1000;
+const ROBOTS_ERROR_TTL_MS = Number(process.env.ROBOTS_ERROR_TTL_MS) || 10 * 60 * 1000;
+
+/* -----------------------------
+   Public API
+----------------------------- */
+
+export async function checkCrawlPolicy(url: string): Promise<CrawlDecision> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    // Not a URL we can check; the fetch itself will fail
+    return { allowed: true };
+  }
+
+  const host = parsed.hostname.toLowerCase();
+
+  if (!isDomainPermitted(host)) {
+    console.log(`[crawlPolicy] ${host} is not permitted by the domain lists`);
+    return { allowed: false, reason: "domain_denied" };
+  }
+
+  const robots = await robotsFor(parsed);
+
+  if (robots.status === "unreachable") {
+    return { allowed: false, reason: "robots_unreachable" };
+  }
+
+  if (!isPathAllowed(robots, parsed.pathname + parsed.search)) {
+    console.log(`[crawlPolicy] robots.txt disallows ${url}`);
+    return { allowed: false, reason: "robots_disallowed", crawlDelayMs: robots.crawlDelayMs };
+  }
+
+  return { allowed: true, crawlDelayMs: robots.crawlDelayMs };
+}
+
+/**
+ * Requests `url` and follows its redirects by hand. Each Location is checked
+ * (crawl policy by default) before `request` is called for it; the first URL
+ * is the caller's to check. `decision` is the check that let a hop through,
+ * so callers can throttle redirected hosts by their own Crawl-delay.
+ */
+export async function followRedirects<T extends RedirectHop>(
+  url: string,
+  request: (hopUrl: string, decision?: CrawlDecision) => Promise<T>,
+  check: (hopUrl: string) => Promise<CrawlDecision> = checkCrawlPolicy
+): Promise<FollowedRequest<T>> {
+  let current = url;
+  let decision: CrawlDecision | undefined;
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const response = await request(current, decision);
+    const next = redirectTarget(current, response);
+    if (!next) return { finalUrl: current, response };
+
+    decision = await check(next);
+    if (!decision.allowed) return { finalUrl: next, blocked: decision.reason };
+    current = next;
+  }
+
+  throw new Error(`More than ${MAX_REDIRECTS} redirects from ${url}`);
+}
+
+/**
+ * The browser follows redirects on its own, so where a render ended up is
+ * checked again; a permitted URL may redirect to a denied host or a
+ * disallowed path.
+ */
+export async function checkRedirectTarget(requestedUrl: string, finalUrl: string | null): Promise<CrawlDecision> {
+  if (!finalUrl || finalUrl === requestedUrl) return { allowed: true };
+  return checkCrawlPolicy(finalUrl);
+}
+
+export function isDomainPermitted(host: string): boolean {
+  const denied = domainList(process.env.CRAWL_DENIED_DOMAINS);
+  const allowed = domainList(process.env.CRAWL_ALLOWED_DOMAINS);
+
+  if (denied.some(domain => matchesDomain(host, domain))) return false;
+  return allowed.length === 0 || allowed.some(domain => matchesDomain(host, domain));
+}
+
+/**
+ * Picks the PartlyBot group (or "*") out of a robots.txt body.
+ */
+export function parseRobotsTxt(text: string): RobotsPolicy {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator < 0) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "user-agent") {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if ((field === "allow" || field === "disallow") && value) {
+      current.rules.push({ allow: field === "allow", pattern: value });
+    } else if (field === "crawl-delay") {
+      const seconds = Number(value);
+      if (Number.isFinite(seconds) && seconds >= 0) current.crawlDelayMs = seconds * 1000;
+    }
+  }
+
+  const own = groups.filter(group =>
+    group.agents.some(agent => agent.split("/")[0] === ROBOTS_AGENT_TOKEN)
+  );
+  const selected = own.length > 0 ? own : groups.filter(group => group.agents.includes("*"));
+
+  const delays = selected.map(group => group.crawlDelayMs).filter(ms => ms !== undefined);
+
+  return {
+    status: "parsed",
+    rules: selected.flatMap(group => group.rules),
+    crawlDelayMs: delays.length > 0 ? Math.max(...delays) : undefined
+  };
+}
+
+/**
+ * Longest matching pattern wins; on a tie Allow beats Disallow.
+ */
+export function isPathAllowed(robots: RobotsPolicy, pathAndQuery: string): boolean {
+  if (robots.status === "unreachable") return false;
+
+  let best: RobotsRule | null = null;
+
+  for (const rule of robots.rules) {
+    if (!patternToRegex(rule.pattern).test(pathAndQuery || "/")) continue;
+
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+
+  return best ? best.allow : true;
+}
+
+/* -----------------------------
+   robots.txt fetching
+----------------------------- */
+
+const robotsCache = new Map<string, { policy: Promise<RobotsPolicy>; expiresAt: number }>();
+
+function robotsFor(url: URL): Promise<RobotsPolicy> {
+  const origin = url.origin;
+  const cached = robotsCache.get(origin);
+  if (cached && cached.expiresAt > Date.now()) return cached.policy;
+
+  // Shared promise, so parallel crawls of one host fetch robots.txt once
+  const policy = fetchRobots(origin).then(result => {
+    const ttl = result.status === "unreachable" ? ROBOTS_ERROR_TTL_MS : ROBOTS_CACHE_TTL_MS;
+    robotsCache.set(origin, { policy, expiresAt: Date.now() + ttl });
+    return result;
+  });
+
+  robotsCache.set(origin, { policy, expiresAt: Number.POSITIVE_INFINITY });
+  return policy;
+}
+
+async function fetchRobots(origin: string): Promise<RobotsPolicy> {
+  const robotsUrl = `${origin}/robots.txt`;
+
+  let response: { status: number; body: string | null };
+  try {
+    // robots.txt can't vouch for its own redirects; only the domain lists apply
+    const followed = await followRedirects(
+      robotsUrl,
+      hopUrl => withRecording("robots", hopUrl, () => fetchRobotsFile(hopUrl)),
+      async hopUrl => domainDecision(hopUrl)
+    );
+    if (followed.blocked) throw new Error(`redirected to ${followed.finalUrl}, blocked: ${followed.blocked}`);
+    response = followed.response;
+  } catch (err) {
+    console.warn(`[crawlPolicy] robots.txt unreachable for ${origin}: ${String(err)}`);
+    return { status: "unreachable", rules: [] };
+  }
+
+  if (response.status >= 500) {
+    console.warn(`[crawlPolicy] robots.txt for ${origin} returned ${response.status}`);
+    return { status: "unreachable", rules: [] };
+  }
+
+  if (response.status >= 400 || response.body === null) {
+    return { status: "missing", rules: [] };
+  }
+
+  return parseRobotsTxt(response.body);
+}
+
+async function fetchRobotsFile(url: string): Promise<RedirectHop & { body: string | null }> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), ROBOTS_TIMEOUT_MS);
+
+  try {
+    const res = await fetch(url, {
+      redirect: "manual",
+      signal: controller.signal,
+      headers: { "User-Agent": CRAWLER_USER_AGENT }
+    });
+
+    return {
+      status: res.status,
+      location: res.headers.get("location"),
+      body: res.ok ? await res.text() : null
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/* -----------------------------
+   Helpers
+----------------------------- */
+
+// Absolute Location of a 3xx response, or null when it isn't a redirect
+function redirectTarget(from: string, response: RedirectHop): string | null {
+  if (response.status < 300 || response.status >= 400 || !response.location) return null;
+
+  try {
+    return new URL(response.location, from).href;
+  } catch {
+    return null;
+  }
+}
+
+function domainDecision(url: string): CrawlDecision {
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch {
+    return { allowed: true };
+  }
+  return isDomainPermitted(host) ? { allowed: true } : { allowed: false, reason: "domain_denied" };
+}
+
+function patternToRegex(pattern: string): RegExp {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+function domainList(raw: string | undefined): string[] {
+  return (raw ?? "")
+    .split(",")
+    .map(domain => domain.trim().toLowerCase().replace(/^\*?\./, ""))
+    .filter(Boolean);
+}
+
+function matchesDomain(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
@@ -0,0 +1,166 @@
+// services/crawlProfiles.ts
+import fs from "fs";
+import path from "path";
+import type { Page } from "playwright";
+import { bundledDataDir } from "./knowledgeBase.js";
+
+/**
+ * Declarative per-site crawl profiles.
+ *
+ * Sites whose spec table only appears after a cookie banner is dismissed, a
+ * tab is clicked or the page is scrolled are described in
+ * backend/data/crawl-profiles.json (override with CRAWL_PROFILES_FILE;
+ * KNOWLEDGE_BASE_DIR does not move it). crawlPage picks the profile for the URL's host:
+ * the longest matching domain wins, "*" applies when nothing else does.
+ *
+ * Steps run in a fixed order after navigation: dismiss, click, scroll,
+ * then waitForSelector. Selectors that are missing are skipped, so a
+ * profile never turns a page that renders into a failed crawl.
+ */
+
+/* -----------------------------
+   Types
+----------------------------- */
+
+export interface CrawlProfile {
+  id: string;
+  // "example.com" also covers subdomains; "*" is the fallback profile
+  domains: string[];
+  description?: string;
+
+  // Go straight to the browser; the static HTML is known to be useless
+  skipFetch?: boolean;
+  waitUntil?: "domcontentloaded" | "load" | "networkidle";
+  timeoutMs?: number;
+
+  // Cookie banners and overlays, clicked if present
+  dismiss?: string[];
+  // Tabs and "show more" toggles, clicked in order if present
+  click?: string[];
+  scroll?: { times: number; delayMs?: number };
+  // Content that must be present before the HTML is taken
+  waitForSelector?: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 20_000;
+// A visible element that will not take a click must not eat the navigation budget
+const STEP_TIMEOUT_MS = 3_000;
+
+/* -----------------------------
+   Configuration
+----------------------------- */
+
+function profilesFile(): string {
+  return (
+    process.env.CRAWL_PROFILES_FILE ||
+    path.join(bundledDataDir(), "crawl-profiles.json")
+  );
+}
+
+const profilesCache = new Map<string, CrawlProfile[]>();
+
+export function loadCrawlProfiles(file: string = profilesFile()): CrawlProfile[] {
+  const cached = profilesCache.get(file);
+  if (cached) return cached;
+
+  if (!fs.existsSync(file)) {
+    console.warn(`[crawlProfiles] no profiles file at ${file}`);
+    profilesCache.set(file, []);
+    return [];
+  }
+
+  let profiles: CrawlProfile[];
+  try {
+    profiles = JSON.parse(fs.readFileSync(file, "utf8")).profiles ?? [];
+  } catch (err) {
+    throw new Error(`Failed to load crawl profiles from ${file}: ${String(err)}`);
+  }
+
+  for (const profile of profiles) {
+    if (!profile.id || !Array.isArray(profile.domains) || profile.domains.length === 0) {
+      throw new Error(`Crawl profile ${profile.id ?? "(unnamed)"} needs an id and at least one domain`);
+    }
+  }
+
+  profilesCache.set(file, profiles);
+  return profiles;
+}
+
+/* -----------------------------
+   Matching
+----------------------------- */
+
+export function findCrawlProfile(
+  url: string,
+  profiles: CrawlProfile[] = loadCrawlProfiles()
+): CrawlProfile | null {
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+
+  let best: { profile: CrawlProfile; length: number } | null = null;
+
+  for (const profile of profiles) {
+    for (const raw of profile.domains) {
+      const domain = raw.toLowerCase().replace(/^www\./, "");
+      const matches = domain === "*" || host === domain || host.endsWith(`.${domain}`);
+      // "*" ranks below every real domain
+      const length = domain === "*" ? 0 : domain.length;
+
+      if (matches && (!best || length > best.length)) {
+        best = { profile, length };
+      }
+    }
+  }
+
+  return best?.profile ?? null;
+}
+
+/* -----------------------------
+   Rendering
+----------------------------- */
+
+/**
+ * Navigates and runs the profile's steps; with no profile this is a plain
+ * goto, as before profiles existed.
+ */
+export async function renderWithProfile(
+  page: Page,
+  url: string,
+  profile: CrawlProfile | null
+): Promise<void> {
+  await page.goto(url, {
+    waitUntil: profile?.waitUntil ?? "domcontentloaded",
+    timeout: profile?.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  });
+
+  if (!profile) return;
+
+  for (const selector of [...(profile.dismiss ?? []), ...(profile.click ?? [])]) {
+    try {
+      // isVisible() does not wait, so absent selectors cost nothing
+      const target = page.locator(selector).first();
+      if (await target.isVisible()) await target.click({ timeout: STEP_TIMEOUT_MS });
+    } catch {
+      // Covered or detached mid-click; carry on
+    }
+  }
+
+  for (let i = 0; i < (profile.scroll?.times ?? 0); i++) {
+    await page.mouse.wheel(0, 2_000);
+    await page.waitForTimeout(profile.scroll?.delayMs ?? 500);
+  }
+
+  if (profile.waitForSelector) {
+    try {
+      await page.waitForSelector(profile.waitForSelector, {
+        timeout: profile.timeoutMs ?? DEFAULT_TIMEOUT_MS
+      });
+    } catch {
+      console.warn(`[crawlProfiles] ${profile.id}: ${profile.waitForSelector} not found on ${url}`);
+    }
+  }
+}
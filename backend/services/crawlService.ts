@@ -1,6 +1,17 @@
 // services/crawlService.ts
 import fetch from "node-fetch";
-import { chromium } from "playwright";
+import { withDomainThrottle } from "./scheduler.js";
+import { withBrowserPage } from "./browserPool.js";
+import { findCrawlProfile, renderWithProfile, type CrawlProfile } from "./crawlProfiles.js";
+import { withRecording } from "./httpFixtures.js";
+import { withStageCache, type StageCacheOptions } from "./stageCache.js";
+import {
+  checkCrawlPolicy,
+  checkRedirectTarget,
+  followRedirects,
+  CRAWLER_USER_AGENT,
+  type CrawlBlockReason
+} from "./crawlPolicy.js";
 
 const FETCH_TIMEOUT_MS = 10_000;
 
@@ -10,49 +21,133 @@ export interface CrawlResult {
   html: string | null;
   usedPlaywright: boolean;
   contentType?: string | null;
-  fallbackReason?: "fetch_failed" | "invalid_html" | "non_product" | "captcha_or_js";
+  fallbackReason?:
+    | "fetch_failed"
+    | "invalid_html"
+    | "non_product"
+    | "captcha_or_js"
+    // The site's crawl profile sends it straight to the browser
+    | "site_profile"
+    // Not crawled at all: crawl policy or robots.txt said no
+    | CrawlBlockReason;
   crawlConfidence?: "high" | "medium" | "low";
 }
 
-async function tryFetchOnce(url: string): Promise<{ html: string; finalUrl: string; contentType: string | null } | null> {
+// Raw response as recorded/replayed by httpFixtures, one per redirect hop
+interface FetchedPage {
+  ok: boolean;
+  status: number;
+  finalUrl: string;
+  location?: string | null;
+  contentType: string | null;
+  html: string | null;
+}
+
+type FetchAttempt =
+  | { html: string; finalUrl: string; contentType: string | null }
+  // A redirect pointed somewhere crawl policy refuses
+  | { blocked: CrawlBlockReason; finalUrl: string };
+
+async function fetchPage(url: string): Promise<FetchedPage> {
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
 
   try {
     const res = await fetch(url, {
-      redirect: "follow",
+      redirect: "manual",
       signal: controller.signal,
       headers: {
-        "User-Agent": "Mozilla/5.0 (compatible; PartlyBot/1.0; +https://partly.ai)"
+        "User-Agent": CRAWLER_USER_AGENT
       }
     });
 
-    const contentType = res.headers.get("content-type");
+    return {
+      ok: res.ok,
+      status: res.status,
+      finalUrl: res.url,
+      location: res.headers.get("location"),
+      contentType: res.headers.get("content-type"),
+      html: res.ok ? await res.text() : null
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
 
-    if (res.ok) {
-      const html = await res.text();
-      if (isValidHtml(html)) {
-        return { html, finalUrl: res.url, contentType };
-      }
+async function tryFetchOnce(url: string, delayMs?: number): Promise<FetchAttempt | null> {
+  try {
+    // Redirect targets are checked before they are requested
+    const { finalUrl, response: res, blocked } = await followRedirects(url, (hopUrl, decision) =>
+      withRecording("fetch", hopUrl, () =>
+        withDomainThrottle(hopUrl, () => fetchPage(hopUrl), {
+          delayMs: decision ? decision.crawlDelayMs : delayMs
+        })
+      )
+    );
+
+    if (blocked) return { blocked, finalUrl };
+    if (res.ok && isValidHtml(res.html)) {
+      return { html: res.html, finalUrl, contentType: res.contentType };
     }
     return null;
   } catch {
     return null;
-  } finally {
-    clearTimeout(timeout);
   }
 }
 
-export async function crawlPage(url: string): Promise<CrawlResult> {
+export async function crawlPage(
+  url: string,
+  options?: { cache?: StageCacheOptions }
+): Promise<CrawlResult> {
+  // Checked before the cache, so a newly denied site is not served from it
+  const policy = await checkCrawlPolicy(url);
+  if (!policy.allowed) return blockedResult(url, policy.reason, false);
+
+  // Only usable product pages are cached; failed, blocked and low-confidence
+  // crawls are tried again on the next run instead of sticking for the TTL
+  return withStageCache(
+    "crawl",
+    url,
+    options?.cache,
+    () => crawlUncached(url, findCrawlProfile(url), policy.crawlDelayMs),
+    isCacheableCrawl
+  );
+}
+
+function isCacheableCrawl(result: CrawlResult): boolean {
+  return !!result.html && result.crawlConfidence !== "low";
+}
+
+function blockedResult(finalUrl: string, reason: CrawlBlockReason, usedPlaywright: boolean): CrawlResult {
+  return {
+    finalUrl,
+    html: null,
+    usedPlaywright,
+    contentType: null,
+    fallbackReason: reason,
+    crawlConfidence: "low"
+  };
+}
+
+async function crawlUncached(
+  url: string,
+  profile: CrawlProfile | null,
+  delayMs?: number
+): Promise<CrawlResult> {
+  if (profile?.skipFetch) {
+    return await crawlWithPlaywright(url, profile, "site_profile", delayMs);
+  }
+
   // Try fast fetch twice for the original URL only
   let fallbackReason: CrawlResult["fallbackReason"] | undefined;
 
   for (let attempt = 0; attempt < 2; attempt++) {
-    const tryResult = await tryFetchOnce(url);
+    const tryResult = await tryFetchOnce(url, delayMs);
     if (!tryResult) {
       fallbackReason = "fetch_failed";
       continue;
     }
+    if ("blocked" in tryResult) return blockedResult(tryResult.finalUrl, tryResult.blocked, false);
     if (!looksLikeProductPage(tryResult.html)) {
       fallbackReason = "non_product";
       continue;
@@ -72,7 +167,7 @@ export async function crawlPage(url: string): Promise<CrawlResult> {
   }
 
   // Playwright fallback after fast fetch is incomplete
-  return await crawlWithPlaywright(url, fallbackReason);
+  return await crawlWithPlaywright(url, profile, fallbackReason, delayMs);
 }
 
 function isValidHtml(html: string): boolean {
@@ -144,21 +239,30 @@ function hasUsableProductSignals(html: string): boolean {
   return textDensityOk && strongSignal;
 }
 
+async function renderWithPlaywright(
+  url: string,
+  profile: CrawlProfile | null
+): Promise<{ html: string; finalUrl: string }> {
+  // Shared browser; see browserPool for page limits and request blocking
+  return withBrowserPage(async page => {
+    await renderWithProfile(page, url, profile);
+    return { html: await page.content(), finalUrl: page.url() };
+  });
+}
+
 async function crawlWithPlaywright(
   url: string,
-  fallbackReason?: CrawlResult["fallbackReason"]
+  profile: CrawlProfile | null,
+  fallbackReason?: CrawlResult["fallbackReason"],
+  delayMs?: number
 ): Promise<CrawlResult> {
-  const browser = await chromium.launch({ headless: true });
-  const page = await browser.newPage();
-
   try {
-    await page.goto(url, {
-      waitUntil: "domcontentloaded",
-      timeout: 20_000
-    });
+    const { html, finalUrl } = await withRecording("playwright", url, () =>
+      withDomainThrottle(url, () => renderWithPlaywright(url, profile), { delayMs })
+    );
 
-    const html = await page.content();
-    const finalUrl = page.url();
+    const redirect = await checkRedirectTarget(url, finalUrl);
+    if (!redirect.allowed) return blockedResult(finalUrl, redirect.reason, true);
 
     // If JS rendered but still no usable product signals, treat as low confidence
     if (!hasUsableProductSignals(html)) {
@@ -189,7 +293,5 @@ async function crawlWithPlaywright(
       fallbackReason: fallbackReason ?? "captcha_or_js",
       crawlConfidence: "low"
     };
-  } finally {
-    await browser.close();
   }
 }
\ No newline at end of file
@@ -0,0 +1,352 @@
+// services/datasheetSchema.ts
+
+/**
+ * Schema-driven flattening of curated datasheet JSON.
+ *
+ * The records under data/ come in several shapes (flat "_raw" strings,
+ * nested objects, numbers, arrays of strings or {name, description}).
+ * flattenDatasheet walks every spec and text section and turns each field
+ * into a labelled spec or a verbatim section, keeping the JSON pointer it was
+ * read from. Fields listed in FIELD_RULES get an explicit label or role;
+ * anything else is labelled from its key path, so nothing is dropped and new
+ * shapes surface as unmapped specs instead of disappearing.
+ */
+
+/* -----------------------------
+   Types
+----------------------------- */
+
+export interface FlattenedDatasheet {
+  specs: Record<string, string>;
+  // Spec label → JSON pointer the value was read from
+  specPaths: Record<string, string>;
+  verbatimSections: { heading: string; text: string; path: string }[];
+}
+
+type FieldRole = "spec" | "verbatim" | "skip";
+
+interface FieldRule {
+  // JSON pointer with "_raw" suffixes removed; "*" matches one segment
+  pointer: string;
+  role: FieldRole;
+  // Spec label, or verbatim heading
+  label?: string;
+}
+
+/* -----------------------------
+   Schema
+----------------------------- */
+
+// Sections whose fields are specs unless a rule says otherwise
+const SPEC_SECTIONS = [
+  "identifiers",
+  "classification",
+  "electrical_specs",
+  "mechanical_specs",
+  "safety_and_compliance",
+  "status_indicators",
+  "status_and_options",
+  "monitoring_and_options",
+  "monitoring_and_status"
+];
+
+// Sections whose fields are verbatim text (legacy records keep some at the top level)
+const TEXT_SECTIONS = [
+  "marketing_overview",
+  "system_description",
+  "overview",
+  "key_features",
+  "document_context",
+  "safety_ratings_and_claims"
+];
+
+// Grouping objects that add nothing to a label ("physical_dimensions/height_in" → "Height In")
+const CONTAINER_SEGMENTS = new Set([
+  "dimensions",
+  "physical_dimensions",
+  "power_configuration",
+  "performance_ratings",
+  "surge_protection_design",
+  "voltage_protection_ratings",
+  "shipping",
+  "conductors"
+]);
+
+const ACRONYMS: Record<string, string> = {
+  ac: "AC", dc: "DC", spd: "SPD", ieee: "IEEE", mcov: "MCOV", sccr: "SCCR", vpr: "VPR",
+  nema: "NEMA", led: "LED", vrms: "VRMS", ka: "kA", hz: "Hz", ul: "UL", csa: "CSA", etl: "ETL"
+};
+
+const FIELD_RULES: FieldRule[] = [
+  // Identifiers: only the series is product data; the rest is bookkeeping
+  { pointer: "/identifiers/product_line", role: "spec", label: "Series" },
+  { pointer: "/identifiers/series", role: "spec", label: "Series" },
+  { pointer: "/identifiers/*", role: "skip" },
+
+  // Classification
+  { pointer: "/classification/category", role: "spec", label: "Product Category" },
+  { pointer: "/classification/spd_type", role: "spec", label: "SPD Type" },
+  { pointer: "/classification/spd_types", role: "spec", label: "SPD Type" },
+  { pointer: "/classification/ieee_location", role: "spec", label: "IEEE Location" },
+  { pointer: "/classification/ieee_locations", role: "spec", label: "IEEE Location" },
+  { pointer: "/classification/ieee_application_categories", role: "spec", label: "IEEE Location" },
+  { pointer: "/classification/positioning_context", role: "verbatim", label: "Positioning" },
+  { pointer: "/classification/system_notes", role: "verbatim", label: "System Notes" },
+
+  // Electrical: per-mode ratings live in nested objects
+  { pointer: "/electrical_specs/vpr_rating/l_l", role: "spec", label: "Voltage Protection Rating L-L" },
+  { pointer: "/electrical_specs/vpr_rating/l_n", role: "spec", label: "Voltage Protection Rating L-N" },
+  { pointer: "/electrical_specs/vpr_rating/n_g", role: "spec", label: "Voltage Protection Rating N-G" },
+  { pointer: "/electrical_specs/*/vpr_rating/line_to_line_v", role: "spec", label: "Voltage Protection Rating L-L" },
+  { pointer: "/electrical_specs/*/vpr_rating/line_to_neutral_v", role: "spec", label: "Voltage Protection Rating L-N" },
+  { pointer: "/electrical_specs/*/vpr_rating/neutral_to_ground_v", role: "spec", label: "Voltage Protection Rating N-G" },
+  { pointer: "/electrical_specs/vpr_rating/standard", role: "spec", label: "VPR Test Standard" },
+  { pointer: "/electrical_specs/*/vpr_rating/standard", role: "spec", label: "VPR Test Standard" },
+  { pointer: "/electrical_specs/vpr_rating/test_current", role: "spec", label: "VPR Test Current" },
+  { pointer: "/electrical_specs/*/vpr_rating/test_current", role: "spec", label: "VPR Test Current" },
+  // The unsplit table cell; the per-mode fields above carry the same values
+  { pointer: "/electrical_specs/vpr_rating/raw_cell", role: "skip" },
+  { pointer: "/electrical_specs/clamping_voltage_v/l_l", role: "spec", label: "Clamping Voltage L-L" },
+  { pointer: "/electrical_specs/clamping_voltage_v/l_n", role: "spec", label: "Clamping Voltage L-N" },
+  { pointer: "/electrical_specs/clamping_voltage_v/n_g", role: "spec", label: "Clamping Voltage N-G" },
+  { pointer: "/electrical_specs/clamping_voltages/l_l", role: "spec", label: "Clamping Voltage L-L" },
+  { pointer: "/electrical_specs/clamping_voltages/l_n", role: "spec", label: "Clamping Voltage L-N" },
+  { pointer: "/electrical_specs/clamping_voltages/n_g", role: "spec", label: "Clamping Voltage N-G" },
+  { pointer: "/electrical_specs/*/clamping_voltages/l_l_v", role: "spec", label: "Clamping Voltage L-L" },
+  { pointer: "/electrical_specs/*/clamping_voltages/l_n_v", role: "spec", label: "Clamping Voltage L-N" },
+  { pointer: "/electrical_specs/*/clamping_voltages/n_g_v", role: "spec", label: "Clamping Voltage N-G" },
+  { pointer: "/electrical_specs/surge_path_technology/label", role: "spec", label: "Surge Path Technology" },
+  { pointer: "/electrical_specs/surge_path_technology/meaning", role: "verbatim", label: "Surge Path Technology" },
+  { pointer: "/electrical_specs/surge_protection_design/element_type", role: "spec", label: "Protection Element Type" },
+  { pointer: "/electrical_specs/surge_protection_design/architecture", role: "spec", label: "Protection Architecture" },
+  { pointer: "/electrical_specs/surge_protection_design/non_degrading_design", role: "spec", label: "Non-Degrading Design" },
+
+  // Mechanical
+  { pointer: "/mechanical_specs/leads/description", role: "spec", label: "Leads" },
+  { pointer: "/mechanical_specs/leads/configuration", role: "spec", label: "Lead Configuration" },
+  { pointer: "/mechanical_specs/conductors/configuration", role: "spec", label: "Lead Configuration" },
+  { pointer: "/mechanical_specs/conductors/material", role: "spec", label: "Conductor Material" },
+  { pointer: "/mechanical_specs/enclosure/rating", role: "spec", label: "Enclosure Rating" },
+  { pointer: "/mechanical_specs/enclosure/nema_rating", role: "spec", label: "Enclosure Rating" },
+  { pointer: "/mechanical_specs/enclosure/environment", role: "spec", label: "Enclosure Environment" },
+  { pointer: "/mechanical_specs/enclosure/protection", role: "spec", label: "Environmental Protection" },
+  { pointer: "/mechanical_specs/enclosure/environmental_protection", role: "spec", label: "Environmental Protection" },
+  { pointer: "/mechanical_specs/enclosure/intended_use", role: "spec", label: "Enclosure Intended Use" },
+  { pointer: "/mechanical_specs/enclosure/*/height", role: "spec", label: "Height" },
+  { pointer: "/mechanical_specs/enclosure/*/width", role: "spec", label: "Width" },
+  { pointer: "/mechanical_specs/enclosure/*/depth", role: "spec", label: "Depth" },
+  { pointer: "/mechanical_specs/enclosure/*/height_in", role: "spec", label: "Height" },
+  { pointer: "/mechanical_specs/enclosure/*/width_in", role: "spec", label: "Width" },
+  { pointer: "/mechanical_specs/enclosure/*/depth_in", role: "spec", label: "Depth" },
+  { pointer: "/mechanical_specs/enclosure/*/mounting_knockout", role: "spec", label: "Mounting Knockout" },
+  { pointer: "/mechanical_specs/enclosure/*/mounting_knockout_in", role: "spec", label: "Mounting Knockout" },
+  { pointer: "/mechanical_specs/shipping/weight_lbs", role: "spec", label: "Shipping Weight Lbs" },
+  // Where the weight was read from in the PDF, not a property of the product
+  { pointer: "/mechanical_specs/shipping_weight_column_index", role: "skip" },
+  { pointer: "/mechanical_specs/shipping_weight_source", role: "skip" },
+
+  // Safety and compliance
+  { pointer: "/safety_and_compliance/certifications_and_standards", role: "spec", label: "Certifications" },
+  { pointer: "/safety_and_compliance/certifications", role: "spec", label: "Certifications" },
+  { pointer: "/safety_and_compliance/logo_mentions", role: "spec", label: "Certification Marks" },
+  { pointer: "/safety_and_compliance/overcurrent_protection_guidance", role: "spec", label: "Overcurrent Protection" },
+  { pointer: "/safety_and_compliance/safety_claims", role: "verbatim", label: "Safety Claim" },
+  { pointer: "/safety_and_compliance/safety_rating_statement", role: "verbatim", label: "Safety Claim" },
+  { pointer: "/safety_and_compliance/safety_statement", role: "verbatim", label: "Safety Claim" },
+
+  // Status indicators and options, under whichever section the record uses
+  { pointer: "/*/status_indicators/type", role: "spec", label: "Status Indicator Type" },
+  { pointer: "/*/status_indicators/description", role: "spec", label: "Status Indicators" },
+  { pointer: "/*/status_indicators_detail/type", role: "spec", label: "Status Indicator Type" },
+  { pointer: "/*/status_indicators_detail/description", role: "spec", label: "Status Indicators" },
+  { pointer: "/status_indicators/type", role: "spec", label: "Status Indicator Type" },
+  { pointer: "/status_indicators/description", role: "spec", label: "Status Indicators" },
+  { pointer: "/*/optional_features", role: "spec", label: "Optional Features" },
+
+  // Overview text
+  { pointer: "/marketing_overview", role: "verbatim", label: "Overview" },
+  { pointer: "/system_description", role: "verbatim", label: "System Description" },
+  { pointer: "/overview/short", role: "verbatim", label: "Short Description" },
+  { pointer: "/overview/long", role: "verbatim", label: "Overview" },
+  { pointer: "/overview/headline", role: "verbatim", label: "Overview" },
+  { pointer: "/overview/marketing_text", role: "verbatim", label: "Overview" },
+  { pointer: "/overview/system_description_text", role: "verbatim", label: "System Description" },
+  { pointer: "/overview/datasheet_title", role: "skip" },
+
+  // Key features, flat or nested
+  { pointer: "/key_features", role: "verbatim", label: "Key Feature" },
+  { pointer: "/key_features/feature_set_title", role: "skip" },
+  { pointer: "/key_features/*", role: "verbatim", label: "Key Feature" },
+
+  // Document furniture: titles, contact details, extraction notes
+  { pointer: "/document_context/datasheet_title", role: "skip" },
+  { pointer: "/document_context/datasheet_reference", role: "skip" },
+  { pointer: "/document_context/contact_block", role: "skip" },
+  { pointer: "/document_context/contact_information", role: "skip" },
+  { pointer: "/document_context/notes", role: "skip" },
+  { pointer: "/safety_ratings_and_claims/*", role: "verbatim", label: "Safety Claim" }
+];
+
+/* -----------------------------
+   Public API
+----------------------------- */
+
+export function flattenDatasheet(raw: any): FlattenedDatasheet {
+  const result: FlattenedDatasheet = { specs: {}, specPaths: {}, verbatimSections: [] };
+  if (!raw || typeof raw !== "object") return result;
+
+  for (const section of SPEC_SECTIONS) {
+    if (raw[section] !== undefined) walk(raw[section], [section], "spec", result);
+  }
+  for (const section of TEXT_SECTIONS) {
+    if (raw[section] !== undefined) walk(raw[section], [section], "verbatim", result);
+  }
+
+  return result;
+}
+
+/* -----------------------------
+   Walk
+----------------------------- */
+
+function walk(
+  node: unknown,
+  segments: string[],
+  sectionRole: FieldRole,
+  result: FlattenedDatasheet
+): void {
+  if (node === null || node === undefined) return;
+
+  const pointer = `/${segments.join("/")}`;
+  const rule = findRule(segments);
+  // Text objects are walked so their fields can carry their own rules
+  const role = isPlainObject(node) && (!rule || rule.role === "verbatim")
+    ? null
+    : rule?.role ?? sectionRole;
+
+  if (role === "skip") return;
+
+  if (role === "spec") {
+    const value = specValue(node);
+    if (value) addSpec(result, rule?.label ?? labelFor(segments), value, pointer);
+    return;
+  }
+
+  if (role === "verbatim") {
+    const heading = rule?.label ?? labelFor(segments);
+    for (const { text, path } of textItems(node, pointer)) {
+      result.verbatimSections.push({ heading, text, path });
+    }
+    return;
+  }
+
+  // Unlisted object: descend, preferring a clean key over its "_raw" twin
+  const record = node as Record<string, unknown>;
+  for (const [key, value] of Object.entries(record)) {
+    if (key.endsWith("_raw") && record[key.replace(/_raw$/, "")] !== undefined) continue;
+    walk(value, [...segments, key], sectionRole, result);
+  }
+}
+
+function findRule(segments: string[]): FieldRule | null {
+  const cleaned = segments.map(s => s.replace(/_raw$/, ""));
+
+  return FIELD_RULES.find(rule => {
+    const parts = rule.pointer.split("/").slice(1);
+    return (
+      parts.length === cleaned.length &&
+      parts.every((part, i) => part === "*" || part === cleaned[i])
+    );
+  }) ?? null;
+}
+
+/* -----------------------------
+   Values
+----------------------------- */
+
+/**
+ * One display string per field: numbers as written, booleans as Yes/No,
+ * lists joined (";" when items contain commas), {name, description} items
+ * as "name (description)", other objects by their leaf values.
+ */
+function specValue(node: unknown): string {
+  if (typeof node === "string") return node.trim();
+  if (typeof node === "number") return Number.isFinite(node) ? String(node) : "";
+  if (typeof node === "boolean") return node ? "Yes" : "No";
+
+  const items = Array.isArray(node)
+    ? node.map(specItem)
+    : isPlainObject(node)
+      ? Object.values(node as Record<string, unknown>).map(specValue)
+      : [];
+
+  const values = items.filter(Boolean);
+  return values.join(values.some(v => v.includes(",")) ? "; " : ", ");
+}
+
+function specItem(item: unknown): string {
+  if (isPlainObject(item)) {
+    const { name, description } = item as Record<string, unknown>;
+    if (typeof name === "string") {
+      return typeof description === "string" && description.trim()
+        ? `${name.trim()} (${description.trim()})`
+        : name.trim();
+    }
+  }
+  return specValue(item);
+}
+
+function textItems(node: unknown, pointer: string): { text: string; path: string }[] {
+  if (typeof node === "string") {
+    return node.trim() ? [{ text: node.trim(), path: pointer }] : [];
+  }
+  if (Array.isArray(node)) {
+    return node.flatMap((item, i) => textItems(item, `${pointer}/${i}`));
+  }
+  if (isPlainObject(node)) {
+    return Object.entries(node as Record<string, unknown>).flatMap(([key, value]) =>
+      textItems(value, `${pointer}/${key}`)
+    );
+  }
+  return [];
+}
+
+/**
+ * The same label can come from several fields (certifications split by
+ * agency); values are appended and the first pointer is kept.
+ */
+function addSpec(result: FlattenedDatasheet, label: string, value: string, pointer: string): void {
+  const existing = result.specs[label];
+
+  if (!existing) {
+    result.specs[label] = value;
+    result.specPaths[label] = pointer;
+  } else if (!existing.split(/[;,] /).includes(value)) {
+    result.specs[label] = `${existing}; ${value}`;
+  }
+}
+
+/* -----------------------------
+   Helpers
+----------------------------- */
+
+// "/electrical_specs/power_configuration/frequency_hz" → "Frequency Hz"
+function labelFor(segments: string[]): string {
+  const meaningful = segments
+    .slice(1)
+    .map(s => s.replace(/_raw$/, ""))
+    .filter(s => !CONTAINER_SEGMENTS.has(s));
+
+  const words = (meaningful.length ? meaningful : segments.slice(-1))
+    .join("_")
+    .split("_")
+    .filter(Boolean);
+
+  return words
+    .map(word => ACRONYMS[word] ?? word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+function isPlainObject(node: unknown): boolean {
+  return typeof node === "object" && node !== null && !Array.isArray(node);
+}
@@ -1,14 +1,11 @@
 // services/discoveryService.ts
-import "dotenv/config";
-import fetch from "node-fetch";
-
-
-const SERPER_ENDPOINT = "https://google.serper.dev/search";
-const SERPER_API_KEY = process.env.SERPER_API_KEY;
-
-if (!SERPER_API_KEY) {
-  throw new Error("SERPER_API_KEY not set in environment");
-}
+import {
+  getSearchProvider,
+  type SearchProvider,
+  type SearchResult
+} from "./searchProviders.js";
+import { isOemUrl } from "./manufacturerDomains.js";
+import { withStageCache, type StageCacheOptions } from "./stageCache.js";
 
 /* -----------------------------
    Types
@@ -21,22 +18,27 @@ export interface DiscoveryResult {
   confidence: "high" | "medium" | "low";
 }
 
-interface SerperResult {
-  link: string;
-  title?: string;
-  snippet?: string;
-}
-
 /* -----------------------------
    Public API
 ----------------------------- */
 
 export async function discoverProductSources(
   mpn: string,
-  manufacturer: string
+  manufacturer: string,
+  options?: { provider?: SearchProvider; cache?: StageCacheOptions }
 ): Promise<DiscoveryResult> {
+  const provider = options?.provider ?? getSearchProvider();
+
+  // Local fixtures are read from disk anyway; only real search is cached
+  const search = (query: string) =>
+    provider.name === "fixture"
+      ? provider.search(query)
+      : withStageCache("discovery", { label: query, provider: provider.name, query }, options?.cache, () =>
+          provider.search(query)
+        );
+
   // 1. First (and usually only) query
-  const results = await runSerperQuery(`"${mpn}" "${manufacturer}"`);
+  const results = await search(`"${mpn}" "${manufacturer}"`);
 
   const scored = scoreResults(results, mpn, manufacturer);
 
@@ -53,7 +55,7 @@ export async function discoverProductSources(
 
   // 2. If we failed to find anything solid, try a PDF fallback
   if (!primary) {
-    const pdfResults = await runSerperQuery(`"${mpn}" datasheet pdf`);
+    const pdfResults = await search(`"${mpn}" datasheet pdf`);
     const pdfOnly = scoreResults(pdfResults, mpn, manufacturer)
       .filter(r => r.url.toLowerCase().endsWith(".pdf"))
       .map(r => r.url);
@@ -84,49 +86,12 @@ export async function discoverProductSources(
   };
 }
 
-/* -----------------------------
-   Serper Query
------------------------------ */
-
-async function runSerperQuery(query: string): Promise<SerperResult[]> {
-  const response = await fetch(SERPER_ENDPOINT, {
-    method: "POST",
-    headers: {
-      "X-API-KEY": SERPER_API_KEY,
-      "Content-Type": "application/json"
-    },
-    body: JSON.stringify({
-      q: query,
-      num: 10
-    })
-  });
-
-  if (!response.ok) {
-    throw new Error(`Serper error: ${response.status}`);
-  }
-
-  const data: any = await response.json();
-
-  // Robust parsing: support multiple Serper response shapes
-  const organic = Array.isArray(data.organic)
-    ? data.organic
-    : Array.isArray(data.results)
-      ? data.results
-      : [];
-
-  return organic.map((r: any) => ({
-    link: r.link || r.url || "",
-    title: r.title || "",
-    snippet: r.snippet || r.description || ""
-  }));
-}
-
 /* -----------------------------
    Scoring Logic (Deterministic)
 ----------------------------- */
 
-function scoreResults(
-  results: SerperResult[],
+export function scoreResults(
+  results: SearchResult[],
   mpn: string,
   manufacturer: string
 ) {
@@ -195,6 +160,18 @@ function scoreResults(
    Domain Helpers
 ----------------------------- */
 
+/**
+ * A page is the manufacturer's own when its registrable domain is one of
+ * the manufacturer's (see manufacturerDomains), e.g. rockwellautomation.com
+ * for Allen-Bradley. Everything else is a distributor/reseller page.
+ */
+export function classifySourceType(
+  url: string,
+  manufacturer: string
+): "oem" | "distributor" {
+  return isOemUrl(url, manufacturer) ? "oem" : "distributor";
+}
+
 function extractDomain(url: string): string {
   try {
     return new URL(url).hostname.replace(/^www\./, "");
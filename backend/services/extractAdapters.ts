@@ -0,0 +1,415 @@
+// services/extractAdapters.ts
+import * as cheerio from "cheerio";
+import fetch from "node-fetch";
+import { withRecording } from "./httpFixtures.js";
+import { withDomainThrottle } from "./scheduler.js";
+import { checkCrawlPolicy, CRAWLER_USER_AGENT, followRedirects, type RedirectHop } from "./crawlPolicy.js";
+
+/**
+ * Platform and site adapters for extractFromHtml.
+ *
+ * A platform adapter recognises a storefront (Shopify, BigCommerce,
+ * Magento, Wix) from its markup and reads the product data the platform
+ * ships with the page. A site adapter is keyed by host and marks known
+ * distributor product pages. Every matching adapter runs; the generic
+ * table / definition-list extraction fills in whatever they leave out.
+ *
+ * Adapters only read data: embedded JSON goes through JSON.parse, never
+ * through eval. An adapter may ask for one extra JSON document (Shopify's
+ * /products/<handle>.json); the pipeline fetches it with fetchAdapterData
+ * before extraction, under the same crawl policy as pages.
+ */
+
+/* -----------------------------
+   Types
+----------------------------- */
+
+export interface AdapterPage {
+  $: cheerio.CheerioAPI;
+  html: string;
+  url: string;
+  host: string;
+}
+
+export interface AdapterExtraction {
+  specs: Record<string, string>;
+  overview?: string | null;
+  images?: string[];
+}
+
+// Merged adapter output; evidence values are "adapter:<id>"
+export interface AdapterResult extends AdapterExtraction {
+  images: string[];
+  specEvidence: Record<string, string>;
+  imageEvidence: Record<string, string>;
+}
+
+export interface ExtractAdapter {
+  id: string;
+  // Site adapters: hosts (and their subdomains) the adapter is for
+  domains?: string[];
+  // Platform adapters: recognise the storefront from the page itself
+  detect?: (page: AdapterPage) => boolean;
+  // Pages on this site are product pages even when the MPN is not in the HTML
+  productSite?: boolean;
+  // One extra JSON document to fetch before extraction
+  dataUrl?: (page: AdapterPage) => string | null;
+  extract?: (page: AdapterPage, data: any | null) => AdapterExtraction;
+}
+
+const DATA_TIMEOUT_MS = 10_000;
+// Same limit the generic extraction applies to spec values
+const MAX_VALUE_LENGTH = 180;
+
+/* -----------------------------
+   Site adapters
+----------------------------- */
+
+const SITE_ADAPTERS: ExtractAdapter[] = [
+  { id: "mc-mc", domains: ["mc-mc.com"], productSite: true },
+  { id: "dosupply", domains: ["dosupply.com"], productSite: true },
+  { id: "radwell", domains: ["radwell.com", "radwell.co.uk"], productSite: true },
+  { id: "gerrie", domains: ["gerrie.com"], productSite: true },
+  { id: "mrosupply", domains: ["mrosupply.com"], productSite: true }
+];
+
+/* -----------------------------
+   Shopify
+----------------------------- */
+
+const shopifyAdapter: ExtractAdapter = {
+  id: "shopify",
+  detect: ({ html }) => /cdn\.shopify\.com|window\.Shopify\b|Shopify\.theme/.test(html),
+  dataUrl: ({ url }) => {
+    const parsed = new URL(url);
+    const handle = parsed.pathname.match(/\/products\/([^/?#.]+)\/?$/)?.[1];
+    return handle ? `${parsed.origin}/products/${handle}.json` : null;
+  },
+  extract: ({ $ }, data) => {
+    // /products/<handle>.json first, then the theme's embedded product JSON
+    const product =
+      data?.product ??
+      parseJson($("script[data-product-json]").first().text()) ??
+      parseJson($("script[id^='ProductJson']").first().text());
+
+    if (!product || typeof product !== "object") return { specs: {} };
+
+    const variants: any[] = Array.isArray(product.variants) ? product.variants : [];
+    // Only a single-variant product has one SKU and weight for the page
+    const variant = variants.length === 1 ? variants[0] : null;
+
+    const specs: Record<string, string> = {};
+    addSpec(specs, "Brand", product.vendor);
+    addSpec(specs, "Product Type", product.product_type);
+    addSpec(specs, "SKU", variant?.sku);
+    if (variant && Number(variant.weight) > 0 && variant.weight_unit) {
+      addSpec(specs, "Weight", `${variant.weight} ${variant.weight_unit}`);
+    }
+
+    const images = (Array.isArray(product.images) ? product.images : [])
+      .map((image: any) => (typeof image === "string" ? image : image?.src))
+      .filter((src: unknown): src is string => typeof src === "string")
+      .map((src: string) => (src.startsWith("//") ? `https:${src}` : src));
+
+    return {
+      specs,
+      overview: htmlToText(product.body_html ?? product.description),
+      images
+    };
+  }
+};
+
+/* -----------------------------
+   BigCommerce
+----------------------------- */
+
+const bigCommerceAdapter: ExtractAdapter = {
+  id: "bigcommerce",
+  detect: ({ html }) => /\bBCData\b|cdn\d*\.bigcommerce\.com/.test(html),
+  extract: ({ $ }) => {
+    let attributes: any = null;
+
+    $("script").each((_, el) => {
+      if (attributes) return;
+      const text = $(el).text();
+      const start = text.search(/var\s+BCData\s*=/);
+      if (start < 0) return;
+
+      attributes = parseJson(balancedObject(text, text.indexOf("{", start)))?.product_attributes ?? null;
+    });
+
+    if (!attributes || typeof attributes !== "object") return { specs: {} };
+
+    const specs: Record<string, string> = {};
+    addSpec(specs, "SKU", attributes.sku);
+    addSpec(specs, "MPN", attributes.mpn);
+    addSpec(specs, "UPC", attributes.upc);
+    addSpec(specs, "Weight", attributes.weight?.formatted);
+    return { specs };
+  }
+};
+
+/* -----------------------------
+   Magento
+----------------------------- */
+
+const magentoAdapter: ExtractAdapter = {
+  id: "magento",
+  detect: ({ $, html }) =>
+    $("script[type='text/x-magento-init']").length > 0 || /\bMagento_[A-Z]\w+/.test(html),
+  extract: ({ $ }) => {
+    const specs: Record<string, string> = {};
+
+    // "More Information" tab; often too short for the generic 3-row rule
+    $("#product-attribute-specs-table tr").each((_, row) => {
+      const label = cleanText($(row).find("th").first().text());
+      const value = cleanText($(row).find("td").first().text());
+      if (label) addSpec(specs, label, value);
+    });
+
+    addSpec(specs, "SKU", cleanText($(".product.attribute.sku .value").first().text()));
+    return { specs };
+  }
+};
+
+/* -----------------------------
+   Wix
+----------------------------- */
+
+const wixAdapter: ExtractAdapter = {
+  id: "wix",
+  detect: ({ html }) => /static\.wixstatic\.com|wix-warmup-data|wixBiSession/.test(html),
+  extract: ({ $ }) => {
+    const warmup = parseJson($("script#wix-warmup-data").first().text());
+    const product = findObject(warmup, value => Array.isArray(value.additionalInfoSections) && "sku" in value);
+
+    if (!product) return { specs: {} };
+
+    const specs: Record<string, string> = {};
+    addSpec(specs, "SKU", product.sku);
+    if (Number(product.weight) > 0) addSpec(specs, "Weight", String(product.weight));
+
+    // Store-owner info sections: a spec table inside, or one short text
+    for (const section of product.additionalInfoSections) {
+      const title = cleanText(section?.title);
+      const body = typeof section?.description === "string" ? section.description : "";
+      if (!title || !body) continue;
+
+      const inner = cheerio.load(body);
+      const rows = inner("tr")
+        .toArray()
+        .map(row => inner(row).find("td, th").toArray().map(cell => cleanText(inner(cell).text())));
+
+      if (rows.some(cells => cells.length >= 2)) {
+        for (const [label, value] of rows) addSpec(specs, label, value);
+      } else {
+        addSpec(specs, title, cleanText(inner.root().text()));
+      }
+    }
+
+    return { specs, overview: htmlToText(product.description) };
+  }
+};
+
+/* -----------------------------
+   Registry
+----------------------------- */
+
+const ADAPTERS: ExtractAdapter[] = [
+  ...SITE_ADAPTERS,
+  shopifyAdapter,
+  bigCommerceAdapter,
+  magentoAdapter,
+  wixAdapter
+];
+
+export function adapterPage($: cheerio.CheerioAPI, html: string, url: string): AdapterPage {
+  let host = "";
+  try {
+    host = new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    // Relative or broken URL: only platform detection can match
+  }
+  return { $, html, url, host };
+}
+
+/**
+ * Every adapter for the page: site adapters by host, platform adapters by
+ * detection. A distributor on Shopify gets both.
+ */
+export function matchAdapters(page: AdapterPage): ExtractAdapter[] {
+  return ADAPTERS.filter(adapter => {
+    if (adapter.domains) {
+      return adapter.domains.some(domain => page.host === domain || page.host.endsWith(`.${domain}`));
+    }
+    return adapter.detect?.(page) ?? false;
+  });
+}
+
+/**
+ * Fetches the extra JSON the page's adapters ask for, keyed by adapter id.
+ * Failures (and policy refusals) just leave the adapter without data.
+ */
+export async function fetchAdapterData(html: string | null, url: string): Promise<Record<string, any>> {
+  if (!html) return {};
+
+  const page = adapterPage(cheerio.load(html), html, url);
+  const data: Record<string, any> = {};
+
+  for (const adapter of matchAdapters(page)) {
+    const dataUrl = safely(() => adapter.dataUrl?.(page)) ?? null;
+    if (!dataUrl) continue;
+
+    const policy = await checkCrawlPolicy(dataUrl);
+    if (!policy.allowed) continue;
+
+    try {
+      // Redirect targets are checked before they are requested
+      const { finalUrl, response, blocked } = await followRedirects(dataUrl, (hopUrl, decision) =>
+        withRecording("fetch", hopUrl, () =>
+          withDomainThrottle(hopUrl, () => fetchJson(hopUrl), {
+            delayMs: decision ? decision.crawlDelayMs : policy.crawlDelayMs
+          })
+        )
+      );
+      if (blocked) throw new Error(`redirected to ${finalUrl}, blocked: ${blocked}`);
+      data[adapter.id] = response.json;
+    } catch (err) {
+      console.warn(`[adapters] ${adapter.id} data unavailable for ${url}: ${String(err)}`);
+    }
+  }
+
+  return data;
+}
+
+/**
+ * Runs the extract step of each adapter; a throwing adapter is skipped so a
+ * theme change on one site cannot break extraction.
+ */
+export function runAdapters(
+  page: AdapterPage,
+  adapters: ExtractAdapter[],
+  data: Record<string, any> = {}
+): AdapterResult {
+  const merged: AdapterResult = { specs: {}, overview: null, images: [], specEvidence: {}, imageEvidence: {} };
+
+  for (const adapter of adapters) {
+    if (!adapter.extract) continue;
+
+    const result = safely(() => adapter.extract(page, data[adapter.id] ?? null));
+    if (!result) {
+      console.warn(`[adapters] ${adapter.id} failed on ${page.url}`);
+      continue;
+    }
+
+    for (const [key, value] of Object.entries(result.specs)) {
+      if (merged.specs[key]) continue;
+      merged.specs[key] = value;
+      merged.specEvidence[key] = `adapter:${adapter.id}`;
+    }
+    merged.overview = merged.overview || result.overview || null;
+    for (const src of result.images ?? []) {
+      if (merged.images.includes(src)) continue;
+      merged.images.push(src);
+      merged.imageEvidence[src] = `adapter:${adapter.id}`;
+    }
+  }
+
+  return merged;
+}
+
+/* -----------------------------
+   Helpers
+----------------------------- */
+
+async function fetchJson(url: string): Promise<RedirectHop & { json: any }> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), DATA_TIMEOUT_MS);
+
+  try {
+    const res = await fetch(url, {
+      redirect: "manual",
+      signal: controller.signal,
+      headers: { "User-Agent": CRAWLER_USER_AGENT, Accept: "application/json" }
+    });
+
+    const location = res.headers.get("location");
+    if (res.status >= 300 && res.status < 400 && location) {
+      return { status: res.status, location, json: null };
+    }
+
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+
+    return { status: res.status, json: await res.json() };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+function addSpec(specs: Record<string, string>, label: string | null, value: unknown) {
+  if (!label || value === null || value === undefined) return;
+  const text = cleanText(String(value));
+  if (text && text.length < MAX_VALUE_LENGTH) specs[label.replace(/:$/, "")] = text;
+}
+
+function parseJson(text: string | null | undefined): any {
+  if (!text || !text.trim()) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+// The {...} starting at `start`, by brace counting (strings respected)
+function balancedObject(text: string, start: number): string | null {
+  if (start < 0) return null;
+
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+
+    if (quote) {
+      if (ch === "\\") i++;
+      else if (ch === quote) quote = null;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") quote = ch;
+    else if (ch === "{") depth++;
+    else if (ch === "}" && --depth === 0) return text.slice(start, i + 1);
+  }
+
+  return null;
+}
+
+function findObject(root: any, test: (value: any) => boolean, depth = 0): any {
+  if (!root || typeof root !== "object" || depth > 12) return null;
+  if (!Array.isArray(root) && test(root)) return root;
+
+  for (const value of Object.values(root)) {
+    const found = findObject(value, test, depth + 1);
+    if (found) return found;
+  }
+  return null;
+}
+
+function htmlToText(html: unknown): string | null {
+  if (typeof html !== "string" || !html.trim()) return null;
+  return cleanText(cheerio.load(html).root().text());
+}
+
+function cleanText(input?: string | null): string | null {
+  if (!input) return null;
+  return input.replace(/\s+/g, " ").trim() || null;
+}
+
+function safely<T>(run: () => T): T | null {
+  try {
+    return run();
+  } catch {
+    return null;
+  }
+}
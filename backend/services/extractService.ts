@@ -1,5 +1,8 @@
 import * as cheerio from "cheerio";
 import { URL } from "url";
+import { adapterPage, matchAdapters, runAdapters } from "./extractAdapters.js";
+import { extractHtmlSpecs } from "./htmlSpecs.js";
+import { extractStructuredProduct, type StructuredOffer } from "./structuredData.js";
 
 /**
  * IMPORTANT:
@@ -29,6 +32,20 @@ export interface ExtractResult {
   overview: string | null;
   images: string[];
   datasheets: { url: string; label?: string }[];
+
+  // Where each spec and image was read from: "table", "definition_list",
+  // "grid", "list", "meta_description", "json-ld", "microdata", "rdfa",
+  // "adapter:<id>", "page"
+  specEvidence: Record<string, string>;
+  imageEvidence: Record<string, string>;
+  // For specs read from page markup: the table or section, e.g. "table 2 › Electrical"
+  specSources: Record<string, string>;
+
+  // Platform / site adapters that matched the page (see extractAdapters)
+  adapters: string[];
+
+  // The page's schema.org offer; a listing's price, kept out of specs
+  offers?: StructuredOffer | null;
 }
 
 /**
@@ -40,6 +57,8 @@ export function extractFromHtml(params: {
   sourceUrl: string;
   mpn: string;
   manufacturer?: string | null;
+  // Extra documents fetched for the page's adapters (fetchAdapterData)
+  adapterData?: Record<string, any>;
 }): ExtractResult {
   const { html, sourceUrl, mpn, manufacturer } = params;
 
@@ -63,37 +82,35 @@ export function extractFromHtml(params: {
     return fail("blocked", sourceUrl, mpn, manufacturer);
   }
 
+  // ------------------
+  // Stage B: Parse DOM and match adapters
+  // ------------------
+
+  let $: cheerio.CheerioAPI;
+  try {
+    $ = cheerio.load(html);
+  } catch {
+    return fail("parse_error", sourceUrl, mpn, manufacturer);
+  }
+
+  const page = adapterPage($, html, sourceUrl);
+  const adapters = matchAdapters(page);
+
   const normalizedMpn = mpn.replace(/[-\s]/g, "").toLowerCase();
   const normalizedHtml = lowerHtml.replace(/[-\s]/g, "");
 
   const looksLikeDistributor =
     sourceUrl.includes("/product") ||
     sourceUrl.includes("/products") ||
-    sourceUrl.includes("mc-mc.com") ||
-    sourceUrl.includes("dosupply.com") ||
-    sourceUrl.includes("radwell") ||
-    sourceUrl.includes("gerrie") ||
-    sourceUrl.includes("mro");
+    adapters.some(adapter => adapter.productSite);
 
   // Only hard-fail if BOTH the MPN is missing AND there is no distributor/product signal
   if (!normalizedHtml.includes(normalizedMpn) && !looksLikeDistributor) {
     return fail("non_product", sourceUrl, mpn, manufacturer);
   }
 
-  // ------------------
-  // Stage B: Parse DOM
-  // ------------------
-
-  let $: cheerio.CheerioAPI;
-  try {
-    $ = cheerio.load(html);
-  } catch {
-    return fail("parse_error", sourceUrl, mpn, manufacturer);
-  }
-
-  // Temporary holders for BCData signals
-  let bcSku: string | null = null;
-  let bcWeight: string | null = null;
+  // Platform product data (Shopify JSON, BigCommerce attributes, ...)
+  const adapted = runAdapters(page, adapters, params.adapterData);
 
   // ------------------
   // TEMP DEBUG: Inspect available spec signals
@@ -123,6 +140,7 @@ export function extractFromHtml(params: {
 
   console.log("[EXTRACT DEBUG]", {
     sourceUrl,
+    adapters: adapters.map(adapter => adapter.id),
     metaDescription,
     ogDescription,
     h1: cleanText($("h1").first().text()),
@@ -130,76 +148,9 @@ export function extractFromHtml(params: {
   });
 
   // ------------------
-  // BigCommerce BCData inline script parsing
-  // ------------------
-  // Capture BCData signals for promotion after specs extraction.
-  $("script").each((_, el) => {
-    const text = $(el).text();
-    if (!text || !text.includes("var BCData =")) return;
-    let match = text.match(/var\s+BCData\s*=\s*({[\s\S]+?});/);
-    if (!match) return;
-    let obj: any = null;
-    try {
-      // Try to parse as JS object (not strict JSON): tolerate single quotes, unquoted keys, etc.
-      // But for safety, try JSON.parse first on the string between = and ;
-      obj = JSON.parse(match[1]);
-    } catch {
-      // fallback: try to eval in a safe context (not recommended, but fallback)
-      try {
-        // eslint-disable-next-line no-new-func
-        obj = Function('"use strict";return (' + match[1] + ')')();
-      } catch {
-        obj = null;
-      }
-    }
-    if (!obj || typeof obj !== "object") return;
-    // Only add direct values, do not infer or normalize
-    if (
-      obj.product_attributes?.weight?.formatted &&
-      !bcWeight
-    ) {
-      bcWeight = obj.product_attributes.weight.formatted;
-    }
-
-    if (
-      typeof obj.product_attributes?.sku === "string" &&
-      !bcSku
-    ) {
-      bcSku = obj.product_attributes.sku;
-    }
-  });
-
-  // ------------------
-  // JSON-LD Product schema parsing
+  // schema.org Product data (JSON-LD, microdata, RDFa)
   // ------------------
-  let jsonLdDescription: string | null = null;
-  $("script[type='application/ld+json']").each((_, el) => {
-    const text = $(el).text();
-    if (!text) return;
-    let json: any = null;
-    try {
-      json = JSON.parse(text);
-    } catch {
-      return;
-    }
-    // JSON-LD can be an array or object
-    const items = Array.isArray(json) ? json : [json];
-    for (const item of items) {
-      if (item && typeof item === "object" && item["@type"] === "Product") {
-        if (typeof item.description === "string" && !jsonLdDescription) {
-          jsonLdDescription = item.description;
-        }
-        if (
-          item.brand &&
-          typeof item.brand === "object" &&
-          typeof item.brand.name === "string" &&
-          !manufacturer
-        ) {
-          // Only set manufacturer if it is null
-        }
-      }
-    }
-  });
+  const structured = extractStructuredProduct($, sourceUrl, mpn);
 
   // ------------------
   // Stage C: Title
@@ -243,15 +194,19 @@ export function extractFromHtml(params: {
   let overview =
     cleanText($('meta[name="description"]').attr("content")) || null;
 
-  // If overview is null and jsonLdDescription exists, use it (decoded)
-  if (!overview && jsonLdDescription) {
+  // If overview is null and a structured description exists, use it (decoded)
+  if (!overview && structured?.description) {
     try {
-      overview = decodeURIComponent(jsonLdDescription);
+      overview = decodeURIComponent(structured.description);
     } catch {
-      overview = jsonLdDescription;
+      overview = structured.description;
     }
   }
 
+  if (!overview && adapted.overview) {
+    overview = adapted.overview;
+  }
+
   // ------------------
   // Stage E: Datasheet discovery
   // ------------------
@@ -262,21 +217,42 @@ export function extractFromHtml(params: {
   // Stage F: Image extraction
   // ------------------
 
-  const images = extractImages($, sourceUrl);
+  const imageEvidence: Record<string, string> = {};
+  const tagImages = (urls: string[], evidence: string) => {
+    for (const url of urls) imageEvidence[url] ??= evidence;
+  };
+
+  // Platform data first, then schema.org images, then the page's own <img> picks
+  for (const url of adapted.images) tagImages([url], adapted.imageEvidence[url]);
+  tagImages(structured?.images ?? [], structured?.syntax);
+  tagImages(extractImages($, sourceUrl), "page");
+
+  const images = Object.keys(imageEvidence).slice(0, 3);
+  for (const url of Object.keys(imageEvidence)) {
+    if (!images.includes(url)) delete imageEvidence[url];
+  }
 
   // ------------------
   // Stage G: Spec extraction
   // ------------------
 
-  const specs = extractSpecs($);
-
-  // Promote BCData signals to specs if not already present
-  if (bcWeight && !specs["Weight"]) {
-    specs["Weight"] = bcWeight;
+  // Adapter values win over schema.org data, which wins over generic
+  // page markup (see htmlSpecs); each value keeps its evidence tag
+  const markup = extractHtmlSpecs($, mpn);
+  const specs: Record<string, string> = markup.specs;
+  const specEvidence: Record<string, string> = markup.evidence;
+  const specSources: Record<string, string> = markup.sources;
+
+  for (const [key, value] of Object.entries(structured?.specs ?? {})) {
+    specs[key] = value;
+    specEvidence[key] = structured.syntax;
+    delete specSources[key];
   }
 
-  if (bcSku && !specs["SKU"]) {
-    specs["SKU"] = bcSku;
+  for (const [key, value] of Object.entries(adapted.specs)) {
+    specs[key] = value;
+    specEvidence[key] = adapted.specEvidence[key];
+    delete specSources[key];
   }
 
   // Promote specs from trusted meta / OG descriptions
@@ -290,6 +266,7 @@ export function extractFromHtml(params: {
   for (const [key, value] of Object.entries(promotedSpecs)) {
     if (!specs[key]) {
       specs[key] = value;
+      specEvidence[key] = "meta_description";
     }
   }
 /**
@@ -355,7 +332,12 @@ function promoteSpecsFromText(text: string): Record<string, string> {
       specs,
       overview,
       images,
-      datasheets
+      datasheets,
+      specEvidence,
+      imageEvidence,
+      specSources,
+      adapters: adapters.map(adapter => adapter.id),
+      offers: structured?.offers ?? null
     };
   }
 
@@ -371,7 +353,12 @@ function promoteSpecsFromText(text: string): Record<string, string> {
     specs,
     overview,
     images,
-    datasheets
+    datasheets,
+    specEvidence,
+    imageEvidence,
+    specSources,
+    adapters: adapters.map(adapter => adapter.id),
+    offers: structured?.offers ?? null
   };
 }
 
@@ -398,7 +385,11 @@ function fail(
     specs: {},
     overview: null,
     images: [],
-    datasheets: []
+    datasheets: [],
+    specEvidence: {},
+    imageEvidence: {},
+    specSources: {},
+    adapters: []
   };
 }
 
@@ -510,43 +501,6 @@ function extractImages(
     .map((c) => c.url);
 }
 
-/**
- * ===== Specs =====
- */
-
-function extractSpecs($: cheerio.CheerioAPI): Record<string, string> {
-  const specs: Record<string, string> = {};
-
-  // Tables
-  $("table").each((_, table) => {
-    const rows = $(table).find("tr");
-    if (rows.length < 3) return;
-
-    rows.each((_, row) => {
-      const cells = $(row).find("td, th");
-      if (cells.length < 2) return;
-
-      const key = cleanText($(cells[0]).text());
-      const value = cleanText($(cells[1]).text());
-
-      if (key && value && value.length < 180) {
-        specs[key.replace(/:$/, "")] = value;
-      }
-    });
-  });
-
-  // Definition lists
-  $("dt").each((_, el) => {
-    const key = cleanText($(el).text());
-    const value = cleanText($(el).next("dd").text());
-    if (key && value && value.length < 180) {
-      specs[key.replace(/:$/, "")] = value;
-    }
-  });
-
-  return specs;
-}
-
 /**
  * ===== Utilities =====
  */
@@ -0,0 +1,242 @@
+// services/htmlSpecs.ts
+import * as cheerio from "cheerio";
+
+/**
+ * Spec key/value pairs laid out in plain HTML.
+ *
+ * Layouts read, in order of trust:
+ * - tables: two-column key/value rows, multi-model tables with one column
+ *   per model (the column whose header matches the requested MPN is read),
+ *   and tables with one row per model (the matching row is read)
+ * - definition lists (dt/dd)
+ * - div grids: a label element followed by a value element, recognised by
+ *   their class names
+ * - list items written as "Label: value", outside nav, header and footer
+ *
+ * Tables and definition lists keep their original precedence (later ones
+ * overwrite earlier ones); grids and list items only fill keys that are
+ * still missing, since they are the noisiest layouts.
+ *
+ * Every spec records where it came from: its evidence tag ("table",
+ * "definition_list", "grid", "list") and a source such as
+ * `table 3 › Electrical` — the table's position on the page plus its
+ * caption, heading or in-table section row.
+ */
+
+/* -----------------------------
+   Types
+----------------------------- */
+
+export type HtmlSpecEvidence = "table" | "definition_list" | "grid" | "list";
+
+export interface HtmlSpecs {
+  specs: Record<string, string>;
+  evidence: Record<string, HtmlSpecEvidence>;
+  sources: Record<string, string>;
+}
+
+const MAX_KEY_LENGTH = 80;
+const MAX_VALUE_LENGTH = 180;
+
+const HEADINGS = "h1, h2, h3, h4, h5, h6";
+
+const GRID_LABEL_CLASS = /(^|[-_\s])(label|name|key|term|attribute)([-_\s]|$)/i;
+const GRID_VALUE_CLASS = /(^|[-_\s])(value|data|val|detail)([-_\s]|$)/i;
+
+// "M1-1480-3", "6SL3210-5BB21-5UV1": hyphenated letters and digits, so
+// column headers such as "480V" or "3-Phase" are not taken for models
+const MODEL_LIKE = /^(?=(?:.*\d){2})(?=.*[a-z])[a-z0-9]+(?:-[a-z0-9]+)+$/i;
+
+/* -----------------------------
+   Public API
+----------------------------- */
+
+export function extractHtmlSpecs($: cheerio.CheerioAPI, mpn: string): HtmlSpecs {
+  const result: HtmlSpecs = { specs: {}, evidence: {}, sources: {} };
+  const wanted = compact(mpn);
+
+  $("table").each((index, table) => {
+    // Layout tables wrap other tables; the inner ones are read on their own
+    if ($(table).find("table").length > 0) return;
+    readTable($, table, `table ${index + 1}`, wanted, result);
+  });
+
+  $("dt").each((_, el) => {
+    const dd = $(el).next("dd");
+    setSpec(result, $(el).text(), dd.text(), "definition_list", withSection("definition list", sectionOf($, el)), true);
+  });
+
+  $("[class]").each((_, el) => {
+    const label = $(el);
+    const value = label.next();
+
+    if (!GRID_LABEL_CLASS.test(label.attr("class") ?? "")) return;
+    if (!GRID_VALUE_CLASS.test(value.attr("class") ?? "")) return;
+    // Leaf-ish cells only; a label wrapping a whole block is a section
+    if (label.children().length > 2 || value.find("table, ul, ol, dl").length > 0) return;
+
+    setSpec(result, label.text(), value.text(), "grid", withSection("grid", sectionOf($, el)), false);
+  });
+
+  $("li").each((_, el) => {
+    if ($(el).find("li").length > 0) return;
+    // Menus and contact blocks ("Call us: …") are not specs
+    if ($(el).closest("nav, header, footer, [role='navigation'], [role='contentinfo']").length > 0) return;
+
+    const match = cleanText($(el).text())?.match(/^([^:]{2,80}?)\s*:\s+(.+)$/);
+    if (!match) return;
+
+    setSpec(result, match[1], match[2], "list", withSection("list", sectionOf($, el)), false);
+  });
+
+  return result;
+}
+
+/* -----------------------------
+   Tables
+----------------------------- */
+
+function readTable(
+  $: cheerio.CheerioAPI,
+  table: any,
+  name: string,
+  wanted: string,
+  result: HtmlSpecs
+) {
+  const trs = $(table).find("tr").toArray();
+  const rows = trs.map(row => expandCells($, row));
+
+  if (rows.length === 0) return;
+
+  const base = withSection(name, tableTitle($, table));
+  const header = rows[0];
+  // A single full-width cell heads the rows below it ("Electrical")
+  const sectionRows = new Set(trs.map((row, i) => ($(row).children("td, th").length === 1 ? i : -1)));
+
+  // Model names in the first row or column mark a multi-model table even
+  // when its header is plain <td> cells
+  const isModel = (cell: string | undefined) => MODEL_LIKE.test(cell ?? "") || namesModel(cell, wanted);
+  const modelColumns = header.slice(1).filter(isModel).length;
+  const modelRows = rows.slice(1).filter(cells => isModel(cells[0])).length;
+  const headed =
+    $(trs[0]).children("th").length > 0 || $(table).find("thead").length > 0 || modelColumns > 0 || modelRows > 0;
+
+  if (header.length >= 3 && headed) {
+    // One column per model: "Spec | M1-1240-3 | M1-1480-3"
+    const column = header.findIndex((cell, i) => i > 0 && namesModel(cell, wanted));
+    if (column > 0) {
+      readRows(rows, base, result, cells => [cells[0], cells[column]], i => i === 0 || sectionRows.has(i));
+      return;
+    }
+
+    // One row per model: "Model | Voltage | SCCR" then a row per model
+    const row = rows.slice(1).find(cells => namesModel(cells[0], wanted));
+    if (row) {
+      header.forEach((label, i) => {
+        if (i > 0) setSpec(result, label, row[i], "table", base, true);
+      });
+      return;
+    }
+
+    // Another model's columns or rows; none of it describes this MPN
+    if (modelColumns >= 1 || modelRows >= 2) return;
+  }
+
+  readRows(rows, base, result, cells => [cells[0], cells[1]], i => sectionRows.has(i));
+}
+
+function readRows(
+  rows: string[][],
+  base: string,
+  result: HtmlSpecs,
+  pick: (cells: string[]) => [string, string],
+  isSection: (index: number) => boolean
+) {
+  let section: string | null = null;
+
+  rows.forEach((cells, index) => {
+    if (isSection(index)) {
+      // The model header row of a multi-model table names no section
+      if (index > 0 || cells.length === 1) section = cells[0] || section;
+      return;
+    }
+    if (cells.length < 2) return;
+
+    const [key, value] = pick(cells);
+    setSpec(result, key, value, "table", withSection(base, section), true);
+  });
+}
+
+// Cell texts with colspan repeated, so column indexes line up with the header
+function expandCells($: cheerio.CheerioAPI, row: any): string[] {
+  const cells: string[] = [];
+
+  $(row)
+    .children("td, th")
+    .each((_, cell) => {
+      const span = Math.min(Math.max(Number($(cell).attr("colspan")) || 1, 1), 20);
+      const value = cleanText($(cell).text()) ?? "";
+      for (let i = 0; i < span; i++) cells.push(value);
+    });
+
+  return cells;
+}
+
+function tableTitle($: cheerio.CheerioAPI, table: any): string | null {
+  return cleanText($(table).children("caption").text()) || sectionOf($, table);
+}
+
+/* -----------------------------
+   Helpers
+----------------------------- */
+
+// Nearest heading before the element, looking a few levels up
+function sectionOf($: cheerio.CheerioAPI, el: any): string | null {
+  let node = $(el);
+
+  for (let depth = 0; depth < 4 && node.length > 0; depth++) {
+    const heading = node.prevAll(HEADINGS).first();
+    if (heading.length > 0) return cleanText(heading.text());
+    node = node.parent();
+  }
+
+  return null;
+}
+
+// "M1-1480-3" matches a header of "M1-1480-3" or "M1-1480-3 (480 V)"
+function namesModel(cell: string | undefined, wanted: string): boolean {
+  if (!cell || !wanted) return false;
+  return compact(cell) === wanted || cell.split(/[\s,/()]+/).some(token => compact(token) === wanted);
+}
+
+function withSection(base: string, section: string | null): string {
+  return section ? `${base} › ${section}` : base;
+}
+
+function setSpec(
+  result: HtmlSpecs,
+  rawKey: string | undefined,
+  rawValue: string | undefined,
+  evidence: HtmlSpecEvidence,
+  source: string,
+  overwrite: boolean
+) {
+  const key = cleanText(rawKey)?.replace(/:$/, "");
+  const value = cleanText(rawValue);
+
+  if (!key || !value || key.length > MAX_KEY_LENGTH || value.length >= MAX_VALUE_LENGTH) return;
+  if (!overwrite && result.specs[key]) return;
+
+  result.specs[key] = value;
+  result.evidence[key] = evidence;
+  result.sources[key] = source;
+}
+
+function cleanText(input?: string | null): string | null {
+  if (!input) return null;
+  return input.replace(/\s+/g, " ").trim() || null;
+}
+
+function compact(value: string | null | undefined): string {
+  return (value ?? "").toLowerCase().replace(/[^a-z0-9]/g, "");
+}
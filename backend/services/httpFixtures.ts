@@ -0,0 +1,141 @@
+// services/httpFixtures.ts
+import "dotenv/config";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+/**
+ * Record-and-replay for every outbound call the pipeline makes.
+ *
+ * PARTLY_FIXTURE_MODE:
+ * - "off" (default): calls go straight to the network
+ * - "record": calls go to the network and each response is written to disk
+ * - "replay": responses are served from disk; nothing touches the network
+ *
+ * Recordings live in PARTLY_FIXTURE_DIR (default tests/fixtures/recorded),
+ * one JSON file per call under a folder per kind.
+ *
+ * A call with no fixture in replay mode fails the run (exit code 1) even
+ * when the caller swallows the error, so a scenario that isn't covered
+ * can't pass quietly on partial data.
+ *
+ * Typical use:
+ *   PARTLY_FIXTURE_MODE=record npx tsx tests/pipeline.scenarios.ts
+ *   PARTLY_FIXTURE_MODE=replay npx tsx tests/pipeline.scenarios.ts
+ */
+
+/* -----------------------------
+   Types
+----------------------------- */
+
+export type FixtureMode = "off" | "record" | "replay";
+
+export type FixtureKind = "serper" | "fetch" | "playwright" | "pdf" | "llm" | "robots";
+
+interface RecordedCall<T> {
+  kind: FixtureKind;
+  key: unknown;
+  // Absent from hand-written fixtures such as tests/fixtures/canned
+  recordedAt?: string;
+  value?: T;
+  // Failures are recorded too, so replay reproduces them
+  error?: string;
+}
+
+/* -----------------------------
+   Configuration
+----------------------------- */
+
+export function fixtureMode(): FixtureMode {
+  const mode = (process.env.PARTLY_FIXTURE_MODE || "off").toLowerCase();
+  if (mode === "record" || mode === "replay") return mode;
+  return "off";
+}
+
+function fixtureRoot(): string {
+  return (
+    process.env.PARTLY_FIXTURE_DIR ||
+    path.join(process.cwd(), "tests", "fixtures", "recorded")
+  );
+}
+
+/* -----------------------------
+   Public API
+----------------------------- */
+
+/**
+ * Wraps one outbound call. `key` identifies the request (query, URL, prompt)
+ * and must be stable between record and replay runs.
+ */
+export async function withRecording<T>(
+  kind: FixtureKind,
+  key: unknown,
+  produce: () => Promise<T>
+): Promise<T> {
+  const mode = fixtureMode();
+
+  if (mode === "off") {
+    return produce();
+  }
+
+  const file = fixturePath(kind, key);
+
+  if (mode === "replay") {
+    if (!fs.existsSync(file)) {
+      const message = `No ${kind} fixture for ${describeKey(key)} (${file})`;
+      console.error(`[fixtures] ${message}`);
+      process.exitCode = 1;
+      throw new Error(message);
+    }
+
+    const recorded: RecordedCall<T> = JSON.parse(fs.readFileSync(file, "utf8"));
+    if (recorded.error !== undefined) {
+      throw new Error(recorded.error);
+    }
+    return recorded.value as T;
+  }
+
+  try {
+    const value = await produce();
+    writeRecording(file, { kind, key, recordedAt: new Date().toISOString(), value });
+    return value;
+  } catch (err: any) {
+    writeRecording(file, {
+      kind,
+      key,
+      recordedAt: new Date().toISOString(),
+      error: err?.message ?? String(err)
+    });
+    throw err;
+  }
+}
+
+/* -----------------------------
+   Helpers
+----------------------------- */
+
+function fixturePath(kind: FixtureKind, key: unknown): string {
+  const serialized = JSON.stringify(key);
+  const hash = crypto.createHash("sha1").update(serialized).digest("hex").slice(0, 12);
+  const slug = describeKey(key)
+    .toLowerCase()
+    .replace(/^https?:\/\//, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+
+  return path.join(fixtureRoot(), kind, `${slug || kind}-${hash}.json`);
+}
+
+function describeKey(key: unknown): string {
+  if (typeof key === "string") return key;
+  if (key && typeof key === "object" && "label" in key) {
+    return String((key as any).label);
+  }
+  return JSON.stringify(key).slice(0, 80);
+}
+
+function writeRecording(file: string, call: RecordedCall<unknown>) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(call, null, 2));
+}
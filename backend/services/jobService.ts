@@ -0,0 +1,189 @@
+// services/jobService.ts
+import { randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import { runProductPipeline, type PipelineStageEvent } from "./runProductPipeline.js";
+import { ENRICH_CONCURRENCY, runWithConcurrency } from "./scheduler.js";
+import { saveResult } from "./resultStore.js";
+import type { StageCacheOptions } from "./stageCache.js";
+import type { EnrichedComponentData, ProcessingStats } from "../types.js";
+
+/* -----------------------------
+   Types
+----------------------------- */
+
+export type JobItemStatus = EnrichedComponentData["status"];
+
+export interface EnrichmentJobItem {
+  mpn: string;
+  status: JobItemStatus;
+  result: any | null;
+  error?: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface EnrichmentJob {
+  id: string;
+  manufacturer: string;
+  // Per-request cache behaviour, passed to every item's pipeline run
+  cache?: StageCacheOptions;
+  status: "queued" | "running" | "completed";
+  createdAt: string;
+  updatedAt: string;
+  stats: ProcessingStats;
+  items: EnrichmentJobItem[];
+}
+
+export type EnrichmentJobEvent =
+  | ({ type: "stage"; jobId: string } & PipelineStageEvent)
+  | { type: "item"; jobId: string; item: EnrichmentJobItem; stats: ProcessingStats }
+  | { type: "done"; jobId: string; stats: ProcessingStats };
+
+/* -----------------------------
+   In-memory job store
+----------------------------- */
+
+// Finished jobs are kept around long enough for clients to poll the result.
+const JOB_RETENTION_MS = Number(process.env.JOB_RETENTION_MS) || 60 * 60 * 1000;
+
+const jobs = new Map<string, EnrichmentJob>();
+
+// One channel per job id; listeners come and go with SSE connections
+const events = new EventEmitter();
+events.setMaxListeners(0);
+
+/* -----------------------------
+   Public API
+----------------------------- */
+
+/**
+ * Registers a job for the batch and starts processing it in the background.
+ * Returns immediately; callers poll `getJob(id)` for progress.
+ */
+export function createEnrichmentJob(input: {
+  mpns: string[];
+  manufacturer: string;
+  concurrency?: number;
+  cache?: StageCacheOptions;
+}): EnrichmentJob {
+  pruneFinishedJobs();
+
+  const now = new Date().toISOString();
+  const job: EnrichmentJob = {
+    id: randomUUID(),
+    manufacturer: input.manufacturer,
+    cache: input.cache,
+    status: "queued",
+    createdAt: now,
+    updatedAt: now,
+    stats: { total: input.mpns.length, completed: 0, errors: 0 },
+    items: input.mpns.map((mpn): EnrichmentJobItem => ({
+      mpn: String(mpn),
+      status: "pending",
+      result: null
+    }))
+  };
+
+  jobs.set(job.id, job);
+
+  // Fire-and-forget: failures are recorded per item, never thrown to the caller
+  void processJob(job, input.concurrency ?? ENRICH_CONCURRENCY);
+
+  return job;
+}
+
+export function getJob(id: string): EnrichmentJob | null {
+  return jobs.get(id) ?? null;
+}
+
+/**
+ * Subscribes to stage, item and completion events for a job.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToJob(
+  id: string,
+  listener: (event: EnrichmentJobEvent) => void
+): () => void {
+  events.on(id, listener);
+  return () => {
+    events.off(id, listener);
+  };
+}
+
+/* -----------------------------
+   Processing
+----------------------------- */
+
+async function processJob(job: EnrichmentJob, concurrency: number): Promise<void> {
+  job.status = "running";
+  touch(job);
+
+  await runWithConcurrency(job.items, concurrency, item => processItem(job, item));
+
+  job.status = "completed";
+  touch(job);
+  publish(job, { type: "done", jobId: job.id, stats: { ...job.stats } });
+}
+
+async function processItem(job: EnrichmentJob, item: EnrichmentJobItem): Promise<void> {
+  item.status = "processing";
+  item.startedAt = new Date().toISOString();
+  touch(job);
+
+  try {
+    item.result = await runProductPipeline({
+      mpn: item.mpn,
+      manufacturer: job.manufacturer,
+      cache: job.cache,
+      onStage: stageEvent => publish(job, { type: "stage", jobId: job.id, ...stageEvent })
+    });
+    item.status = "completed";
+    job.stats.completed++;
+  } catch (err: any) {
+    console.error(`ENRICH JOB ${job.id} ERROR (${item.mpn}):`, err);
+    item.status = "error";
+    item.error = err?.message || "Internal error";
+    job.stats.errors++;
+  } finally {
+    item.finishedAt = new Date().toISOString();
+    storeItem(job, item);
+    touch(job);
+    publish(job, { type: "item", jobId: job.id, item, stats: { ...job.stats } });
+  }
+}
+
+/* -----------------------------
+   Helpers
+----------------------------- */
+
+function publish(job: EnrichmentJob, event: EnrichmentJobEvent) {
+  events.emit(job.id, event);
+}
+
+function touch(job: EnrichmentJob) {
+  job.updatedAt = new Date().toISOString();
+}
+
+// The store is a record of runs; failing to write it must not fail the item
+function storeItem(job: EnrichmentJob, item: EnrichmentJobItem) {
+  try {
+    saveResult({
+      mpn: item.mpn,
+      manufacturer: job.manufacturer,
+      jobId: job.id,
+      result: item.result,
+      error: item.error
+    });
+  } catch (err) {
+    console.error(`ENRICH JOB ${job.id} STORE ERROR (${item.mpn}):`, err);
+  }
+}
+
+function pruneFinishedJobs() {
+  const cutoff = Date.now() - JOB_RETENTION_MS;
+  for (const [id, job] of jobs) {
+    if (job.status === "completed" && Date.parse(job.updatedAt) < cutoff) {
+      jobs.delete(id);
+    }
+  }
+}
@@ -0,0 +1,230 @@
+// services/knowledgeBase.ts
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import type { ExtractedProduct } from "./normalizeProduct.js";
+
+/**
+ * Local product knowledge base.
+ *
+ * Curated product records (datasheet JSON) live under
+ * <root>/<manufacturer>/products/<MPN>.json, one directory per manufacturer.
+ * The root defaults to backend/data wherever the process was started from,
+ * and KNOWLEDGE_BASE_DIR points it elsewhere.
+ *
+ * Records are indexed once per root and looked up by normalized manufacturer
+ * plus MPN, so "Surge Pure" / "SurgePure" and "m1-1120-3" / "M1–1120–3" find
+ * the same record. The pipeline uses a record as a "datasheet" source next
+ * to crawled pages and PDFs.
+ */
+
+/* -----------------------------
+   Types
+----------------------------- */
+
+export interface KnowledgeBaseRecord {
+  manufacturer: string;
+  mpn: string;
+  file: string;
+  raw: any;
+}
+
+export interface KnowledgeBaseFamily {
+  // identifiers.model_group (or related_models) of the family's records
+  members: string[];
+  // Records of the other members, in model_group order
+  siblings: KnowledgeBaseRecord[];
+}
+
+// Curated records outrank crawled pages when values disagree
+const RECORD_CONFIDENCE = 0.95;
+
+/* -----------------------------
+   Configuration
+----------------------------- */
+
+export function knowledgeBaseRoot(): string {
+  if (process.env.KNOWLEDGE_BASE_DIR) {
+    return path.resolve(process.env.KNOWLEDGE_BASE_DIR);
+  }
+
+  return bundledDataDir();
+}
+
+/**
+ * backend/data as shipped, regardless of KNOWLEDGE_BASE_DIR. Bundled config
+ * (variant-rules.json, crawl-profiles.json, manufacturer-domains.json) is
+ * read from here, so pointing the knowledge base at a separate product
+ * store does not drop it.
+ */
+export function bundledDataDir(): string {
+  // services/ under tsx, dist/services/ after a build
+  const here = path.dirname(fileURLToPath(import.meta.url));
+  return (
+    [path.join(here, "..", "data"), path.join(here, "..", "..", "data")].find(dir =>
+      fs.existsSync(dir)
+    ) ?? path.join(process.cwd(), "data")
+  );
+}
+
+/* -----------------------------
+   Index
+----------------------------- */
+
+interface KnowledgeBaseIndex {
+  records: Map<string, KnowledgeBaseRecord>;
+  byManufacturer: Map<string, KnowledgeBaseRecord[]>;
+}
+
+const indexCache = new Map<string, KnowledgeBaseIndex>();
+
+function loadIndex(root: string): KnowledgeBaseIndex {
+  const cached = indexCache.get(root);
+  if (cached) return cached;
+
+  const index: KnowledgeBaseIndex = { records: new Map(), byManufacturer: new Map() };
+
+  const manufacturerDirs = fs.existsSync(root)
+    ? fs.readdirSync(root, { withFileTypes: true }).filter(entry => entry.isDirectory())
+    : [];
+
+  for (const dir of manufacturerDirs) {
+    const productsDir = path.join(root, dir.name, "products");
+    if (!fs.existsSync(productsDir)) continue;
+
+    for (const file of fs.readdirSync(productsDir)) {
+      if (!file.endsWith(".json")) continue;
+
+      const fullPath = path.join(productsDir, file);
+      let raw: any;
+      try {
+        raw = JSON.parse(fs.readFileSync(fullPath, "utf8"));
+      } catch (err) {
+        console.warn(`[knowledgeBase] skipping unreadable record ${fullPath}: ${String(err)}`);
+        continue;
+      }
+
+      const record: KnowledgeBaseRecord = {
+        manufacturer: recordManufacturer(raw) ?? dir.name,
+        mpn: raw?.identifiers?.mpn ?? file.replace(/\.json$/, ""),
+        file: fullPath,
+        raw
+      };
+
+      // Reachable under the record's own manufacturer name and its directory
+      for (const maker of new Set([manufacturerKey(record.manufacturer), manufacturerKey(dir.name)])) {
+        index.records.set(`${maker}:${mpnKey(record.mpn)}`, record);
+
+        const list = index.byManufacturer.get(maker) ?? [];
+        list.push(record);
+        index.byManufacturer.set(maker, list);
+      }
+    }
+  }
+
+  console.log(`[knowledgeBase] indexed ${new Set(index.records.values()).size} record(s) under ${root}`);
+  indexCache.set(root, index);
+  return index;
+}
+
+/* -----------------------------
+   Public API
+----------------------------- */
+
+export function findProductRecord(
+  manufacturer: string,
+  mpn: string,
+  root: string = knowledgeBaseRoot()
+): KnowledgeBaseRecord | null {
+  return loadIndex(root).records.get(`${manufacturerKey(manufacturer)}:${mpnKey(mpn)}`) ?? null;
+}
+
+/**
+ * The model group containing `mpn`, with every other member that has a
+ * record. The part itself needs no record: being listed in a sibling's
+ * model_group is enough.
+ */
+export function findFamilyRecords(
+  manufacturer: string,
+  mpn: string,
+  root: string = knowledgeBaseRoot()
+): KnowledgeBaseFamily | null {
+  const own = findProductRecord(manufacturer, mpn, root);
+  const key = mpnKey(mpn);
+
+  const members = own
+    ? familyGroup(own.raw)
+    : (loadIndex(root).byManufacturer.get(manufacturerKey(manufacturer)) ?? [])
+        .map(record => familyGroup(record.raw))
+        .find(group => group.some(member => mpnKey(member) === key)) ?? [];
+
+  if (members.length === 0) return null;
+
+  const siblings = members
+    .filter(member => mpnKey(member) !== key)
+    .map(member => findProductRecord(manufacturer, member, root))
+    .filter((record): record is KnowledgeBaseRecord => !!record);
+
+  return { members, siblings };
+}
+
+/**
+ * manufacturer.website of the manufacturer's records, deduplicated.
+ */
+export function findManufacturerWebsites(
+  manufacturer: string,
+  root: string = knowledgeBaseRoot()
+): string[] {
+  const records = loadIndex(root).byManufacturer.get(manufacturerKey(manufacturer)) ?? [];
+  const websites = records
+    .map(record => record.raw?.manufacturer?.website)
+    .filter((website): website is string => typeof website === "string" && website.length > 0);
+
+  return Array.from(new Set(websites));
+}
+
+/**
+ * A record as an extraction source; normalizeProducts flattens rawDatasheet.
+ */
+export function recordToSource(
+  record: KnowledgeBaseRecord,
+  confidence: number = RECORD_CONFIDENCE
+): ExtractedProduct {
+  return {
+    mpn: record.mpn,
+    manufacturer: record.manufacturer,
+    sourceUrl: `datasheet:${record.mpn}`,
+    sourceType: "datasheet",
+    confidence,
+    specs: {},
+    rawDatasheet: record.raw
+  };
+}
+
+export function knowledgeBaseSource(manufacturer: string, mpn: string): ExtractedProduct | null {
+  const record = findProductRecord(manufacturer, mpn);
+  return record ? recordToSource(record) : null;
+}
+
+/* -----------------------------
+   Helpers
+----------------------------- */
+
+function recordManufacturer(raw: any): string | null {
+  const value = raw?.manufacturer;
+  if (typeof value === "string") return value;
+  return typeof value?.name === "string" ? value.name : null;
+}
+
+function familyGroup(raw: any): string[] {
+  const group = raw?.identifiers?.model_group ?? raw?.identifiers?.related_models;
+  return Array.isArray(group) ? group.filter((m: unknown) => typeof m === "string") : [];
+}
+
+function manufacturerKey(name: string): string {
+  return (name ?? "").toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function mpnKey(mpn: string): string {
+  return (mpn ?? "").toUpperCase().replace(/[–—]/g, "-").replace(/\s+/g, "");
+}
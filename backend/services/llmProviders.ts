@@ -0,0 +1,174 @@
+// services/llmProviders.ts
+import "dotenv/config";
+import fetch from "node-fetch";
+import { GoogleGenAI } from "@google/genai";
+import type { SynthesisInput } from "./synthesizeService.js";
+
+/* -----------------------------
+   Types
+----------------------------- */
+
+export interface LlmRequest {
+  prompt: string;
+  // Structured input behind the prompt; only the mock provider reads it
+  input: SynthesisInput;
+}
+
+/**
+ * A text-generation backend for synthesis.
+ * Providers return raw model text; JSON extraction and normalization
+ * stay in synthesizeService so every backend is post-processed the same way.
+ */
+export interface LlmProvider {
+  name: string;
+  model: string;
+  generate(request: LlmRequest): Promise<string>;
+}
+
+/* -----------------------------
+   Provider selection
+----------------------------- */
+
+/**
+ * Resolves the provider from LLM_PROVIDER ("gemini" | "openai" | "mock").
+ * Defaults to Gemini so existing deployments keep their behaviour.
+ */
+export function getLlmProvider(): LlmProvider {
+  const name = (process.env.LLM_PROVIDER || "gemini").toLowerCase();
+
+  switch (name) {
+    case "gemini":
+      return createGeminiProvider();
+    case "openai":
+      return createOpenAiCompatibleProvider();
+    case "mock":
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${name}`);
+  }
+}
+
+/* -----------------------------
+   Gemini
+----------------------------- */
+
+let geminiClient: GoogleGenAI | null = null;
+
+export function createGeminiProvider(
+  model: string = process.env.GEMINI_MODEL || "models/gemini-2.5-flash"
+): LlmProvider {
+  return {
+    name: "gemini",
+    model,
+    async generate({ prompt }) {
+      // Created on first use so a missing key fails synthesis, not the server
+      if (!geminiClient) {
+        const apiKey = process.env.GEMINI_API_KEY;
+        if (!apiKey) {
+          throw new Error("GEMINI_API_KEY not set in environment");
+        }
+        geminiClient = new GoogleGenAI({ apiKey });
+      }
+
+      const result = await geminiClient.models.generateContent({
+        model,
+        contents: [
+          {
+            role: "user",
+            parts: [{ text: prompt }]
+          }
+        ]
+      });
+
+      return (
+        (result as any)?.text ??
+        (result as any)?.response?.text ??
+        (result as any)?.candidates?.[0]?.content?.parts?.map((p: any) => p?.text ?? "").join("") ??
+        ""
+      );
+    }
+  };
+}
+
+/* -----------------------------
+   OpenAI-compatible (hosted or local model servers)
+----------------------------- */
+
+export function createOpenAiCompatibleProvider(options?: {
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+}): LlmProvider {
+  const baseUrl = (
+    options?.baseUrl ||
+    process.env.OPENAI_BASE_URL ||
+    "http://localhost:11434/v1"
+  ).replace(/\/+$/, "");
+  const apiKey = options?.apiKey ?? process.env.OPENAI_API_KEY;
+  const model = options?.model || process.env.OPENAI_MODEL || "gpt-4o-mini";
+
+  return {
+    name: "openai",
+    model,
+    async generate({ prompt }) {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          // Local servers usually accept requests without a key
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model,
+          temperature: 0,
+          messages: [{ role: "user", content: prompt }]
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`OpenAI-compatible endpoint error: ${response.status}`);
+      }
+
+      const data: any = await response.json();
+      return String(data?.choices?.[0]?.message?.content ?? "");
+    }
+  };
+}
+
+/* -----------------------------
+   Mock (deterministic, offline)
+----------------------------- */
+
+/**
+ * Builds a response purely from the structured input, in the same JSON shape
+ * the prompt asks real models for. Same input, same output.
+ */
+export function createMockProvider(): LlmProvider {
+  return {
+    name: "mock",
+    model: "mock",
+    async generate({ input }) {
+      const keyFeatures = Object.entries(input.specs)
+        .filter(([, value]) => value && value.trim())
+        .map(([label, value]) => `${label}: ${value}`);
+
+      const descriptors = (input.verbatimDescriptors ?? [])
+        .map(d => String(d).trim())
+        .filter(Boolean);
+
+      const overview = descriptors.slice(0, 3).join(" ");
+
+      return JSON.stringify({
+        keyFeatures,
+        overview,
+        shortDescription: descriptors[0] ?? `${input.canonicalTitle}.`,
+        longDescription: descriptors.join(" "),
+        bulletHighlights: keyFeatures.slice(0, 5),
+        seoDescription: `${input.canonicalTitle}. ${keyFeatures.slice(0, 2).join(", ")}`.slice(0, 160),
+        disclaimers: [
+          "Installation should follow local electrical codes and be performed by qualified personnel."
+        ]
+      });
+    }
+  };
+}
@@ -0,0 +1,147 @@
+// services/manufacturerDomains.ts
+import fs from "fs";
+import path from "path";
+import { bundledDataDir, findManufacturerWebsites } from "./knowledgeBase.js";
+
+/**
+ * Which domains belong to a manufacturer, for telling OEM pages from
+ * distributor pages.
+ *
+ * Sources, merged:
+ * - backend/data/manufacturer-domains.json (override with
+ *   MANUFACTURER_DOMAINS_FILE), for brands whose site is not named after
+ *   them (Allen-Bradley on rockwellautomation.com)
+ * - manufacturer.website of the brand's knowledge base records
+ * - the brand name itself as a registrable domain (SurgePure on
+ *   surgepure.com), when neither lists anything
+ *
+ * Matching is on the registrable domain, so shop.surgepure.com is the OEM's
+ * and surgepure-parts.com is not.
+ */
+
+/* -----------------------------
+   Types
+----------------------------- */
+
+export interface ManufacturerDomainsEntry {
+  names: string[];
+  domains: string[];
+}
+
+// Second-level labels that sit under a country code ("example.co.uk")
+const COUNTRY_SLDS = new Set(["co", "com", "net", "org", "ac", "gov", "edu", "ne", "or"]);
+
+/* -----------------------------
+   Configuration
+----------------------------- */
+
+function domainsFile(): string {
+  return (
+    process.env.MANUFACTURER_DOMAINS_FILE ||
+    path.join(bundledDataDir(), "manufacturer-domains.json")
+  );
+}
+
+const entriesCache = new Map<string, ManufacturerDomainsEntry[]>();
+
+export function loadManufacturerDomains(file: string = domainsFile()): ManufacturerDomainsEntry[] {
+  const cached = entriesCache.get(file);
+  if (cached) return cached;
+
+  if (!fs.existsSync(file)) {
+    console.warn(`[manufacturerDomains] no domains file at ${file}`);
+    entriesCache.set(file, []);
+    return [];
+  }
+
+  let entries: ManufacturerDomainsEntry[];
+  try {
+    entries = JSON.parse(fs.readFileSync(file, "utf8")).manufacturers ?? [];
+  } catch (err) {
+    throw new Error(`Failed to load manufacturer domains from ${file}: ${String(err)}`);
+  }
+
+  for (const entry of entries) {
+    if (!Array.isArray(entry.names) || entry.names.length === 0 || !Array.isArray(entry.domains)) {
+      throw new Error(`Manufacturer domains entry ${JSON.stringify(entry.names)} needs names and domains`);
+    }
+  }
+
+  entriesCache.set(file, entries);
+  return entries;
+}
+
+/* -----------------------------
+   Public API
+----------------------------- */
+
+/**
+ * Registrable domains of the manufacturer's own sites.
+ */
+export function oemDomains(
+  manufacturer: string,
+  entries: ManufacturerDomainsEntry[] = loadManufacturerDomains()
+): string[] {
+  const key = nameKey(manufacturer);
+  if (!key) return [];
+
+  const configured = entries
+    .filter(entry => entry.names.some(name => nameKey(name) === key))
+    .flatMap(entry => entry.domains);
+
+  const websites = findManufacturerWebsites(manufacturer).map(website => {
+    try {
+      return new URL(website).hostname;
+    } catch {
+      return website;
+    }
+  });
+
+  return Array.from(
+    new Set([...configured, ...websites].map(domain => registrableDomain(domain)).filter(Boolean))
+  );
+}
+
+export function isOemUrl(
+  url: string,
+  manufacturer: string,
+  entries: ManufacturerDomainsEntry[] = loadManufacturerDomains()
+): boolean {
+  let host: string;
+  try {
+    host = new URL(url).hostname;
+  } catch {
+    return false;
+  }
+
+  const domain = registrableDomain(host);
+  if (!domain) return false;
+
+  const known = oemDomains(manufacturer, entries);
+  if (known.length > 0) return known.includes(domain);
+
+  // Unlisted brand: its name as the domain's own label
+  return domain.split(".")[0].replace(/[^a-z0-9]/g, "") === nameKey(manufacturer);
+}
+
+/**
+ * "www.shop.surgepure.com" → "surgepure.com", "www.rs-online.co.uk" →
+ * "rs-online.co.uk". A short list of country second-level labels stands in
+ * for the public suffix list.
+ */
+export function registrableDomain(host: string): string {
+  const labels = host.toLowerCase().replace(/\.$/, "").split(".").filter(Boolean);
+  if (labels.length <= 2) return labels.join(".");
+
+  const [sld, tld] = labels.slice(-2);
+  const keep = tld.length === 2 && COUNTRY_SLDS.has(sld) ? 3 : 2;
+  return labels.slice(-keep).join(".");
+}
+
+/* -----------------------------
+   Helpers
+----------------------------- */
+
+function nameKey(name: string): string {
+  return (name ?? "").toLowerCase().replace(/[^a-z0-9]/g, "");
+}
@@ -1,5 +1,16 @@
-import fs from "fs";
-import path from "path";
+import {
+  parseQuantity,
+  quantitiesEquivalent,
+  type Quantity
+} from "./quantityParser.js";
+import {
+  detectProductCategory,
+  resolveAttribute,
+  type AttributeDefinition,
+  type ProductCategory
+} from "./attributeDictionary.js";
+import { flattenDatasheet } from "./datasheetSchema.js";
+import { findFamilyRecords, recordToSource } from "./knowledgeBase.js";
 // services/normalizeProduct.ts
 
 export interface ExtractedProduct {
@@ -18,6 +29,8 @@ export interface ExtractedProduct {
     heading?: string;
     text: string;
     source?: string;
+    // JSON pointer into rawDatasheet, for datasheet-derived text
+    path?: string;
   }[];
 
   images?: {
@@ -31,6 +44,12 @@ export interface ExtractedProduct {
   }[];
 
   rawDatasheet?: any; // raw-first parsed datasheet JSON blocks
+
+  // Spec key → JSON pointer into rawDatasheet the value was read from
+  specPaths?: Record<string, string>;
+
+  // Sibling MPN whose curated record supplied this family-level data
+  inheritedFrom?: string;
 }
 
 export interface NormalizedProduct {
@@ -40,19 +59,37 @@ export interface NormalizedProduct {
   canonicalTitle: string;
   displayTitle?: string;
 
+  category: ProductCategory | null;
+
   specs: Record<string, {
     value: string;
+    // Typed form of `value`; kind "text" when it is not a plain quantity
+    quantity: Quantity;
+    // Source references (URL, or "datasheet:<mpn>#<json pointer>");
+    // the first one is where `value` came from
     sources: string[];
     confidence: number;
+    // True when the value is a family-wide spec taken from a sibling's record
+    inherited?: boolean;
   }>;
 
+  // Incoming spec keys with no entry in the attribute dictionary (kept as-is)
+  unmappedSpecs: string[];
+
+  // Specs where sources disagreed; `specs` holds the value that won
+  conflicts: SpecConflict[];
+
   verbatimSections: {
     heading?: string;
     text: string;
     source: string;
     confidence: number;
+    inherited?: boolean;
   }[];
 
+  // Model group the part belongs to, when resolved from local datasheet records
+  family: ProductFamily | null;
+
   images: {
     url: string;
     source: string;
@@ -68,6 +105,28 @@ export interface NormalizedProduct {
   overallConfidence: number;
 }
 
+export interface ProductFamily {
+  // identifiers.model_group of the family's records
+  members: string[];
+  // Siblings whose records were inherited from (empty when the part has its own)
+  inheritedFrom: string[];
+}
+
+export interface SpecConflict {
+  attribute: string;
+  chosenValue: string;
+  // True when every competing value states the same quantity after unit
+  // parsing ("240,000 Amps" vs "240 kA"), i.e. a formatting difference only
+  equivalent: boolean;
+  values: {
+    value: string;
+    quantity: Quantity;
+    source: string;
+    sourceType: ExtractedProduct["sourceType"];
+    confidence: number;
+  }[];
+}
+
 export function normalizeProducts(
   products: ExtractedProduct[],
   options?: { canonicalMpn?: string }
@@ -76,36 +135,31 @@ export function normalizeProducts(
     throw new Error("normalizeProducts called with empty product list");
   }
 
-  // Auto-inject local datasheet JSON from disk if present
+  // Local records come in as "datasheet" sources (see knowledgeBase)
   const baseProduct = products[0];
   const mpnForLookup = baseProduct.mpn;
 
-  const datasheetPath = path.join(
-    process.cwd(),
-    "data",
-    "surgepure",
-    "products",
-    `${mpnForLookup}.json`
-  );
+  // Parts without a curated record of their own inherit from their family
+  const hasOwnDatasheet = products.some(p => p.sourceType === "datasheet");
+  const familyRecords = findFamilyRecords(baseProduct.manufacturer, mpnForLookup);
+  let family: ProductFamily | null = null;
 
-  if (!products.some(p => p.sourceType === "datasheet") && fs.existsSync(datasheetPath)) {
-    try {
-      const rawDatasheet = JSON.parse(fs.readFileSync(datasheetPath, "utf8"));
-
-      const datasheetProduct: ExtractedProduct = {
-        mpn: mpnForLookup,
-        manufacturer: baseProduct.manufacturer,
-        sourceUrl: `datasheet:${mpnForLookup}`,
-        sourceType: "datasheet",
-        confidence: 0.95,
-        specs: {},
-        rawDatasheet
-      };
-
-      // Put datasheet first so it has precedence, but keep HTML products
-      products = [datasheetProduct, ...products];
-    } catch (err) {
-      throw new Error(`Failed to load datasheet JSON for ${mpnForLookup}: ${String(err)}`);
+  if (familyRecords) {
+    family = { members: familyRecords.members, inheritedFrom: [] };
+
+    if (!hasOwnDatasheet && familyRecords.siblings.length > 0) {
+      const siblings = familyRecords.siblings.map(record => {
+        const sibling = recordToSource(record, FAMILY_CONFIDENCE);
+        preprocessDatasheet(sibling);
+        return sibling;
+      });
+      const inherited = inheritFromFamily(
+        siblings,
+        mpnForLookup,
+        baseProduct.manufacturer
+      );
+      family.inheritedFrom = familyRecords.siblings.map(s => s.mpn);
+      products = [...products, inherited];
     }
   }
 
@@ -122,114 +176,7 @@ export function normalizeProducts(
   // Preprocess datasheet products to extract specs and verbatim sections
   for (const p of products) {
     if (p.sourceType === "datasheet" && p.rawDatasheet) {
-      console.log("[DEBUG normalize] preprocessing datasheet product:", {
-        sourceUrl: p.sourceUrl,
-        rawKeys: Object.keys(p.rawDatasheet ?? {}),
-      });
-      // datasheet → deterministic source of truth
-      const raw = p.rawDatasheet;
-
-      // Initialize specs if missing
-      if (!p.specs) p.specs = {};
-
-      // Map electrical_specs: extract all string-valued fields, normalize keys
-      if (raw.electrical_specs) {
-        for (const [key, val] of Object.entries(raw.electrical_specs)) {
-          if (typeof val === "string" && val.trim()) {
-            const specKey = key
-              .replace(/_raw$/, "")
-              .replace(/_/g, " ")
-              .replace(/\b\w/g, c => c.toUpperCase());
-            p.specs[specKey] = val.trim();
-          }
-        }
-      }
-
-      // Map mechanical_specs: extract all string-valued fields, normalize keys
-      if (raw.mechanical_specs) {
-        for (const [key, val] of Object.entries(raw.mechanical_specs)) {
-          if (typeof val === "string" && val.trim()) {
-            const specKey = key
-              .replace(/_raw$/, "")
-              .replace(/_/g, " ")
-              .replace(/\b\w/g, c => c.toUpperCase());
-            p.specs[specKey] = val.trim();
-          }
-        }
-      }
-
-      // Map safety_and_compliance: extract all string-valued fields, normalize keys
-      if (raw.safety_and_compliance) {
-        for (const [key, val] of Object.entries(raw.safety_and_compliance)) {
-          if (typeof val === "string" && val.trim()) {
-            const specKey = key
-              .replace(/_raw$/, "")
-              .replace(/_/g, " ")
-              .replace(/\b\w/g, c => c.toUpperCase());
-            p.specs[specKey] = val.trim();
-          }
-        }
-      }
-
-      // Set higher default confidence for datasheet specs if p.confidence is undefined
-      if (p.confidence === undefined || p.confidence === null) {
-        p.confidence = 0.95;
-      }
-
-      if (!p.verbatimSections) p.verbatimSections = [];
-
-      // overview marketing text (supports both legacy and nested JSON shapes)
-      const overviewText =
-        (typeof raw.marketing_overview === "string" && raw.marketing_overview) ||
-        (typeof raw.overview?.headline_raw === "string" && raw.overview.headline_raw) ||
-        (Array.isArray(raw.overview?.marketing_text_raw) ? raw.overview.marketing_text_raw.join(" ") : "") ||
-        (typeof raw.overview?.datasheet_title_raw === "string" ? raw.overview.datasheet_title_raw : "");
-
-      if (typeof overviewText === "string" && overviewText.trim()) {
-        p.verbatimSections.push({
-          heading: "Overview",
-          text: overviewText.trim(),
-          source: p.sourceUrl
-        });
-      }
-
-      // system description (supports both legacy and nested JSON shapes)
-      const systemDesc =
-        (typeof raw.system_description === "string" && raw.system_description) ||
-        (typeof raw.overview?.system_description_raw === "string" && raw.overview.system_description_raw) ||
-        (typeof raw.overview?.system_description === "string" && raw.overview.system_description) ||
-        (typeof raw.overview?.system_description_text_raw === "string" && raw.overview.system_description_text_raw);
-
-      if (typeof systemDesc === "string" && systemDesc.trim()) {
-        p.verbatimSections.push({
-          heading: "System Description",
-          text: systemDesc.trim(),
-          source: p.sourceUrl
-        });
-      }
-
-      // key feature bullets (supports both legacy and nested JSON shapes)
-      const bullets: string[] = Array.isArray(raw.key_features)
-        ? raw.key_features
-        : Array.isArray(raw.key_features?.raw_bullets)
-          ? raw.key_features.raw_bullets
-          : Array.isArray(raw.key_features?.bullets)
-            ? raw.key_features.bullets
-            : Array.isArray(raw.key_features?.items)
-              ? raw.key_features.items
-              : Array.isArray(raw.key_features?.raw)
-                ? raw.key_features.raw
-                : [];
-
-      for (const bullet of bullets) {
-        if (typeof bullet === "string" && bullet.trim()) {
-          p.verbatimSections.push({
-            heading: "Key Feature",
-            text: bullet.trim(),
-            source: p.sourceUrl
-          });
-        }
-      }
+      preprocessDatasheet(p);
     }
   }
 
@@ -247,8 +194,6 @@ export function normalizeProducts(
   const mpn = effectiveMpn;
   const manufacturer = base.manufacturer;
 
-  const isRAVariant = effectiveMpn.endsWith("RA");
-
   const canonicalTitle =
     products.find(p => p.sourceType === "oem" && p.canonicalTitle)?.canonicalTitle ??
     products.find(p => p.canonicalTitle)?.canonicalTitle ??
@@ -259,48 +204,101 @@ export function normalizeProducts(
     products.find(p => p.displayTitle)?.displayTitle ??
     canonicalTitle;
 
-  // Canonical spec aliasing to prevent duplicate semantic specs
-  const SPEC_ALIASES: Record<string, string> = {
-    "System Voltage": "Nominal AC Line Voltage (VRMS)",
-    "Voltage": "Nominal AC Line Voltage (VRMS)",
-    "Nominal Ac Line Voltage Vrms": "Nominal AC Line Voltage (VRMS)",
-    "Nominal Ac Line Voltage (Vrms)": "Nominal AC Line Voltage (VRMS)",
-    "Nominal AC Line Voltage Vrms": "Nominal AC Line Voltage (VRMS)",
-  };
+  // Category drives which attribute vocabulary spec keys resolve against
+  const category = detectProductCategory(
+    products.flatMap(p => [
+      p.rawDatasheet?.classification?.category,
+      p.rawDatasheet?.identifiers?.product_family,
+      p.canonicalTitle,
+      p.displayTitle,
+      ...(p.verbatimSections ?? []).map(v => v.text)
+    ]).filter((t): t is string => typeof t === "string")
+  );
 
   const mergedSpecs: NormalizedProduct["specs"] = {};
+  const unmappedSpecs: string[] = [];
+
+  // Every value seen per attribute, so losing values can be reported
+  const observedValues: Record<string, SpecConflict["values"]> = {};
+  // Page each observed value came from, index-aligned with observedValues
+  const observedUrls: Record<string, string[]> = {};
 
   for (const p of products) {
     for (let [key, value] of Object.entries(p.specs ?? {})) {
       if (!value) continue;
 
-      // Normalize spec key via alias map
-      const canonicalKey = SPEC_ALIASES[key] ?? key;
+      // Normalize spec key via the attribute dictionary
+      const definition = resolveAttribute(key, category);
+      const canonicalKey = definition?.name ?? key;
+
+      if (!definition && !unmappedSpecs.includes(key)) {
+        unmappedSpecs.push(key);
+      }
+
+      const quantity = parseSpecQuantity(value, key, definition);
+      const sourceRef = sourceReference(p.sourceUrl, p.specPaths?.[key]);
+
+      (observedValues[canonicalKey] ??= []).push({
+        value,
+        quantity,
+        source: sourceRef,
+        sourceType: p.sourceType,
+        confidence: p.confidence
+      });
+      (observedUrls[canonicalKey] ??= []).push(p.sourceUrl);
 
       if (!mergedSpecs[canonicalKey]) {
         mergedSpecs[canonicalKey] = {
           value,
-          sources: [p.sourceUrl],
-          confidence: p.confidence
+          quantity,
+          sources: [sourceRef],
+          confidence: p.confidence,
+          inherited: !!p.inheritedFrom
         };
       } else {
-        if (p.confidence > mergedSpecs[canonicalKey].confidence) {
-          mergedSpecs[canonicalKey].value = value;
-          mergedSpecs[canonicalKey].confidence = p.confidence;
-        }
-        if (!mergedSpecs[canonicalKey].sources.includes(p.sourceUrl)) {
-          mergedSpecs[canonicalKey].sources.push(p.sourceUrl);
+        const merged = mergedSpecs[canonicalKey];
+
+        if (p.confidence > merged.confidence) {
+          merged.value = value;
+          merged.quantity = quantity;
+          merged.confidence = p.confidence;
+          merged.inherited = !!p.inheritedFrom;
+          // Winning source moves to the front
+          merged.sources = [sourceRef, ...merged.sources.filter(s => s !== sourceRef)];
+        } else if (!merged.sources.includes(sourceRef)) {
+          merged.sources.push(sourceRef);
         }
       }
     }
   }
 
+  // Disagreements are reported, not resolved: the merge above still picks a winner
+  const conflicts: SpecConflict[] = [];
+
+  for (const [attribute, values] of Object.entries(observedValues)) {
+    // One source listing an attribute under two aliases does not conflict
+    // with itself; only values from different pages count
+    const urls = observedUrls[attribute];
+    const disagree = values.some((a, i) =>
+      values.some((b, j) => urls[i] !== urls[j] && a.value.trim() !== b.value.trim())
+    );
+    if (!disagree) continue;
+
+    conflicts.push({
+      attribute,
+      chosenValue: mergedSpecs[attribute].value,
+      equivalent: values.every(v => quantitiesEquivalent(v.quantity, values[0].quantity)),
+      values
+    });
+  }
+
   const verbatimSections = products.flatMap(p =>
     (p.verbatimSections ?? []).map(v => ({
       heading: v.heading,
       text: v.text,
-      source: p.sourceUrl,
-      confidence: p.confidence
+      source: sourceReference(p.sourceUrl, v.path),
+      confidence: p.confidence,
+      inherited: !!p.inheritedFrom
     }))
   );
 
@@ -320,21 +318,6 @@ export function normalizeProducts(
     }))
   );
 
-  if (isRAVariant) {
-    mergedSpecs["Remote Alarm"] = {
-      value: "Yes",
-      sources: ["variant:RA"],
-      confidence: 0.95
-    };
-
-    verbatimSections.push({
-      heading: "Variant",
-      text: "Includes remote alarm for system monitoring.",
-      source: "variant:RA",
-      confidence: 0.95
-    });
-  }
-
   const overallConfidence =
     products.reduce((sum, p) => sum + p.confidence, 0) / products.length;
 
@@ -343,10 +326,116 @@ export function normalizeProducts(
     manufacturer,
     canonicalTitle,
     displayTitle,
+    category,
+    family,
     specs: mergedSpecs,
+    unmappedSpecs,
+    conflicts,
     verbatimSections,
     images,
     datasheets,
     overallConfidence
   };
-}
\ No newline at end of file
+}
+
+/* -----------------------------
+   Datasheet preprocessing
+----------------------------- */
+
+function preprocessDatasheet(p: ExtractedProduct): void {
+  console.log("[DEBUG normalize] preprocessing datasheet product:", {
+    sourceUrl: p.sourceUrl,
+    rawKeys: Object.keys(p.rawDatasheet ?? {}),
+  });
+
+  // datasheet → deterministic source of truth; every field is kept
+  const flattened = flattenDatasheet(p.rawDatasheet);
+
+  p.specs = { ...(p.specs ?? {}), ...flattened.specs };
+  p.specPaths = { ...(p.specPaths ?? {}), ...flattened.specPaths };
+
+  // Set higher default confidence for datasheet specs if p.confidence is undefined
+  if (p.confidence === undefined || p.confidence === null) {
+    p.confidence = 0.95;
+  }
+
+  p.verbatimSections = [
+    ...(p.verbatimSections ?? []),
+    ...flattened.verbatimSections.map(v => ({ ...v, source: p.sourceUrl }))
+  ];
+}
+
+/* -----------------------------
+   Product families
+----------------------------- */
+
+// Shared specs inherited from a family are trusted less than the part's own
+const FAMILY_CONFIDENCE = 0.85;
+
+// Datasheet sections that describe the whole family, not one model column
+// (see provenance.mpn_column_binding in the records)
+const FAMILY_WIDE_SPEC_SECTIONS = ["/safety_and_compliance/"];
+
+/**
+ * Builds one source from the family: descriptor text from the first sibling
+ * (marketing copy covers the whole datasheet), plus specs every sibling
+ * states identically. With a single sibling there is nothing to compare, so
+ * only the datasheet-wide sections count as shared.
+ */
+function inheritFromFamily(
+  siblings: ExtractedProduct[],
+  mpn: string,
+  manufacturer: string
+): ExtractedProduct {
+  const [first] = siblings;
+  const specs: Record<string, string> = {};
+  const specPaths: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(first.specs)) {
+    const shared = siblings.length > 1
+      ? siblings.every(s => s.specs[key]?.trim() === value.trim())
+      : FAMILY_WIDE_SPEC_SECTIONS.some(section => first.specPaths?.[key]?.startsWith(section));
+
+    if (!shared) continue;
+    specs[key] = value;
+    if (first.specPaths?.[key]) specPaths[key] = first.specPaths[key];
+  }
+
+  return {
+    mpn,
+    manufacturer,
+    sourceUrl: first.sourceUrl,
+    sourceType: "datasheet",
+    confidence: FAMILY_CONFIDENCE,
+    specs,
+    specPaths,
+    verbatimSections: first.verbatimSections ?? [],
+    inheritedFrom: first.mpn
+  };
+}
+
+/**
+ * Unitless numbers take the unit the key implies, then the attribute's
+ * expected unit. Text values are never given a unit.
+ */
+function parseSpecQuantity(
+  value: string,
+  rawKey: string,
+  definition: AttributeDefinition | null
+): Quantity {
+  const quantity = parseQuantity(value, { key: rawKey });
+
+  if (quantity.kind !== "text" && !quantity.unit && definition?.unit) {
+    quantity.unit = definition.unit;
+  }
+
+  return quantity;
+}
+
+/* -----------------------------
+   Datasheet provenance helpers
+----------------------------- */
+
+function sourceReference(sourceUrl: string, path?: string): string {
+  return path ? `${sourceUrl}#${path}` : sourceUrl;
+}
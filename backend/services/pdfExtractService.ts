@@ -0,0 +1,419 @@
+// services/pdfExtractService.ts
+import fetch from "node-fetch";
+import pdf from "pdf-parse";
+import { withRecording } from "./httpFixtures.js";
+import { withDomainThrottle } from "./scheduler.js";
+import {
+  checkCrawlPolicy,
+  CRAWLER_USER_AGENT,
+  followRedirects,
+  type CrawlBlockReason,
+  type RedirectHop
+} from "./crawlPolicy.js";
+import type { ExtractedProduct } from "./normalizeProduct.js";
+
+/**
+ * IMPORTANT:
+ * Like extractService, this extractor NEVER infers or completes data.
+ * PDF text layout is lossy, so every spec row is validated before it is kept;
+ * a row that cannot be bound unambiguously to the requested MPN is dropped.
+ */
+
+const PDF_TIMEOUT_MS = 20_000;
+const PDF_MAX_BYTES = 20 * 1024 * 1024;
+
+/* -----------------------------
+   Types
+----------------------------- */
+
+export interface PdfExtractResult {
+  ok: boolean;
+  reason?: "download_failed" | "not_pdf" | "parse_error" | "no_content" | CrawlBlockReason;
+  qualityScore: number;
+  product: ExtractedProduct | null;
+}
+
+/* -----------------------------
+   Public API
+----------------------------- */
+
+export async function extractFromPdfUrl(params: {
+  url: string;
+  mpn: string;
+  manufacturer: string;
+}): Promise<PdfExtractResult> {
+  const policy = await checkCrawlPolicy(params.url);
+  if (!policy.allowed) {
+    return { ok: false, reason: policy.reason, qualityScore: 0, product: null };
+  }
+
+  let buffer: Buffer;
+  try {
+    buffer = await downloadPdf(params.url, policy.crawlDelayMs);
+  } catch (err) {
+    console.warn(`[pdf] download failed for ${params.url}: ${String(err)}`);
+    return { ok: false, reason: "download_failed", qualityScore: 0, product: null };
+  }
+
+  return extractFromPdfBuffer({ ...params, buffer });
+}
+
+export async function extractFromPdfBuffer(params: {
+  buffer: Buffer;
+  url: string;
+  mpn: string;
+  manufacturer: string;
+}): Promise<PdfExtractResult> {
+  const { buffer, url, mpn, manufacturer } = params;
+
+  if (buffer.subarray(0, 5).toString("latin1") !== "%PDF-") {
+    return { ok: false, reason: "not_pdf", qualityScore: 0, product: null };
+  }
+
+  let text: string;
+  try {
+    text = (await pdf(buffer)).text ?? "";
+  } catch {
+    return { ok: false, reason: "parse_error", qualityScore: 0, product: null };
+  }
+
+  const lines = text
+    .split("\n")
+    .map(l => l.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+
+  const normalizedMpn = normalizeMpn(mpn);
+  const mentionsMpn = normalizeMpn(text).includes(normalizedMpn);
+
+  const table = parseModelTable(lines, normalizedMpn);
+
+  // Multi-model sheets can only be bound through their model column;
+  // colon rows there belong to every model at once and are ambiguous.
+  const specs = table ? table.specs : parseColonRows(lines);
+
+  const bullets = parseBullets(text);
+  const paragraphs = parseParagraphs(lines, bullets);
+
+  const verbatimSections: ExtractedProduct["verbatimSections"] = [
+    ...paragraphs.map(p => ({ heading: "Datasheet Description", text: p, source: url })),
+    ...bullets.map(b => ({ heading: "Key Feature", text: b, source: url }))
+  ];
+
+  const qualityScore =
+    0.4 * (Object.keys(specs).length > 0 ? 1 : 0) +
+    0.3 * (bullets.length > 0 || paragraphs.length > 0 ? 1 : 0) +
+    0.3 * (mentionsMpn ? 1 : 0);
+
+  if (Object.keys(specs).length === 0 && verbatimSections.length === 0) {
+    return { ok: false, reason: "no_content", qualityScore, product: null };
+  }
+
+  return {
+    ok: true,
+    qualityScore,
+    product: {
+      mpn,
+      manufacturer,
+      sourceUrl: url,
+      sourceType: "pdf",
+      // Manufacturer datasheets are authoritative, the text layer is not
+      confidence: Number((0.5 + 0.35 * qualityScore).toFixed(2)),
+      specs,
+      verbatimSections,
+      datasheets: [{ url, label: "Datasheet (PDF)" }]
+    }
+  };
+}
+
+/* -----------------------------
+   Download
+----------------------------- */
+
+async function downloadPdf(url: string, delayMs?: number): Promise<Buffer> {
+  // Redirect targets are checked before they are requested
+  const { finalUrl, response, blocked } = await followRedirects(url, (hopUrl, decision) =>
+    // Recorded as base64 so replay can serve binary content from JSON
+    withRecording("pdf", hopUrl, () =>
+      withDomainThrottle(hopUrl, () => requestPdf(hopUrl), {
+        delayMs: decision ? decision.crawlDelayMs : delayMs
+      })
+    )
+  );
+
+  if (blocked) {
+    throw new Error(`PDF redirected to ${finalUrl}, blocked: ${blocked}`);
+  }
+
+  return Buffer.from(response.base64, "base64");
+}
+
+async function requestPdf(url: string): Promise<RedirectHop & { base64: string }> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), PDF_TIMEOUT_MS);
+
+  try {
+    const res = await fetch(url, {
+      redirect: "manual",
+      signal: controller.signal,
+      headers: {
+        "User-Agent": CRAWLER_USER_AGENT
+      }
+    });
+
+    const location = res.headers.get("location");
+    if (res.status >= 300 && res.status < 400 && location) {
+      return { status: res.status, location, base64: "" };
+    }
+
+    if (!res.ok) {
+      throw new Error(`PDF fetch error: ${res.status}`);
+    }
+
+    const declaredLength = Number(res.headers.get("content-length"));
+    if (declaredLength > PDF_MAX_BYTES) {
+      throw new Error(`PDF too large: ${declaredLength} bytes`);
+    }
+
+    const body = Buffer.from(await res.arrayBuffer());
+    if (body.length > PDF_MAX_BYTES) {
+      throw new Error(`PDF too large: ${body.length} bytes`);
+    }
+
+    return { status: res.status, base64: body.toString("base64") };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/* -----------------------------
+   Multi-model spec tables
+----------------------------- */
+
+/**
+ * Datasheet tables covering several models come out of pdf-parse as
+ * "label, then one line per model". Rows are only accepted when the
+ * values line up exactly with the model count.
+ */
+function parseModelTable(
+  lines: string[],
+  normalizedMpn: string
+): { models: string[]; specs: Record<string, string> } | null {
+  const start = lines.findIndex(l => /^model\s*(number|no\.?)/i.test(l));
+  if (start === -1) return null;
+
+  const models: string[] = [];
+  const firstTokens = lines[start].replace(/^model\s*(number|no\.?)/i, "").trim();
+  let i = start + 1;
+
+  if (firstTokens) {
+    // Cells run together ("M1-1120-3M1-1208-4..."): columns cannot be told apart
+    if (!isModelList(firstTokens)) return { models: [], specs: {} };
+    models.push(...firstTokens.split(" "));
+  }
+
+  while (i < lines.length && isModelList(lines[i])) {
+    models.push(...lines[i].split(" "));
+    i++;
+  }
+
+  const column = models.map(normalizeMpn).indexOf(normalizedMpn);
+  if (models.length < 2 || column === -1) {
+    return { models, specs: {} };
+  }
+
+  const n = models.length;
+  const specs: Record<string, string> = {};
+
+  while (i < lines.length) {
+    const label = lines[i];
+
+    if (isProse(label)) break;
+    if (!isLabelLike(label)) {
+      i++;
+      continue;
+    }
+
+    // Spanning row: one value shared by every model, then the next label
+    const next = lines[i + 2];
+    if (i + 1 < lines.length && (next === undefined || isLabelLike(next) || isProse(next))) {
+      addRow(specs, label, lines[i + 1]);
+      i += 2;
+      continue;
+    }
+
+    // Per-model row, possibly followed by unlabeled rows of the same width
+    let end = i + 1;
+    while (end < lines.length && !isLabelLike(lines[end]) && !isProse(lines[end])) {
+      end++;
+    }
+
+    const width = end - (i + 1);
+    const values = lines.slice(i + 1, i + 1 + n);
+
+    if (width > 0 && width % n === 0 && values.every(isCleanValue)) {
+      addRow(specs, label, values[column]);
+    }
+
+    i = end;
+  }
+
+  return { models, specs };
+}
+
+function addRow(specs: Record<string, string>, rawLabel: string, rawValue: string) {
+  const value = rawValue.trim();
+  if (!value || /^n\/?a$/i.test(value)) return;
+
+  let label = rawLabel.trim();
+  let prefix = "";
+
+  // "Total Surge Capacity: (kA @ 8x20 μsec pulse)" keeps its qualifier in the label;
+  // "Leads: 36” #12 AWG Stranded Copper" carries shared detail into the value.
+  const colon = label.indexOf(":");
+  if (colon !== -1) {
+    const after = label.slice(colon + 1).trim();
+    label = label.slice(0, colon).trim();
+    if (after.startsWith("(")) {
+      label = `${label} ${after}`;
+    } else if (after) {
+      prefix = after;
+    }
+  }
+
+  if (!label || specs[label]) return;
+  specs[label] = prefix && prefix !== value ? `${prefix}, ${value}` : value;
+}
+
+function isModelList(line: string): boolean {
+  const tokens = line.split(" ").filter(Boolean);
+  return (
+    tokens.length > 0 &&
+    tokens.every(t => /^[A-Z0-9]+(?:[-./][A-Z0-9]+)+$/i.test(t) && /\d/.test(t))
+  );
+}
+
+function isLabelLike(line: string): boolean {
+  if (!line || line.length > 60 || line.includes("•")) return false;
+  // All-caps lines are page headings ("MACH 3", "DATA SHEET"), not row labels
+  if (!/^[A-Z]/.test(line) || !/[a-z]/.test(line)) return false;
+  if (!/[A-Za-z]{4,}/.test(line)) return false;
+
+  const visible = line.replace(/\s/g, "");
+  const letters = visible.replace(/[^A-Za-z]/g, "");
+  return letters.length / visible.length > 0.5;
+}
+
+function isCleanValue(value: string): boolean {
+  // Fragments from split cells (", N-G", "-G", "5") break column alignment
+  return (
+    value.length >= 2 &&
+    !/^[,;:\-–]/.test(value) &&
+    !/[,;]$/.test(value)
+  );
+}
+
+function isProse(line: string): boolean {
+  return line.length > 80 || line.includes("•");
+}
+
+/* -----------------------------
+   Single-model rows
+----------------------------- */
+
+function parseColonRows(lines: string[]): Record<string, string> {
+  const specs: Record<string, string> = {};
+
+  for (const line of lines) {
+    const match = line.match(/^([A-Z][A-Za-z0-9 ()\/.&#*'’-]{2,50}?)\s*:\s+(.{1,120})$/);
+    if (!match) continue;
+
+    const key = match[1].trim();
+    const value = match[2].trim();
+
+    // Contact blocks are not product specs
+    if (/^(web|email|e-mail|phone|tel|fax|toll free)$/i.test(key)) continue;
+    if (!specs[key]) specs[key] = value;
+  }
+
+  return specs;
+}
+
+/* -----------------------------
+   Feature bullets & paragraphs
+----------------------------- */
+
+function parseBullets(text: string): string[] {
+  const segments = text.split("•").slice(1);
+  const bullets: string[] = [];
+
+  for (const segment of segments) {
+    const joined = joinWrappedLines(segment);
+
+    // A bullet ends at its first sentence terminator, or its first line
+    const sentence = joined.match(/^(.{8,300}?[.!])(\s|$)/);
+    const bullet = (sentence ? sentence[1] : joinWrappedLines(segment.split("\n")[0])).trim();
+
+    if (bullet.length >= 8 && !bullets.includes(bullet)) {
+      bullets.push(bullet);
+    }
+  }
+
+  return bullets;
+}
+
+function parseParagraphs(lines: string[], bullets: string[]): string[] {
+  const paragraphs: string[] = [];
+  let block: string[] = [];
+
+  const flush = () => {
+    const text = joinWrappedLines(block.join("\n"));
+    block = [];
+
+    // Fragments cut off mid-sentence by the text layer start lowercase
+    if (text.split(" ").length < 12 || !/[.!]$/.test(text) || !/^[A-Z]/.test(text)) return;
+    if (bullets.some(b => text.includes(b.slice(0, 30)))) return;
+    if (!paragraphs.includes(text)) paragraphs.push(text);
+  };
+
+  for (const line of lines) {
+    if (line.includes("•") || isBoilerplate(line)) {
+      flush();
+      continue;
+    }
+
+    const continues = block.length > 0 && /[-.!]$/.test(line);
+
+    if (line.length >= 25 || continues || /-$/.test(line)) {
+      block.push(line);
+      if (/[.!]$/.test(line)) flush();
+    } else {
+      flush();
+    }
+  }
+  flush();
+
+  return paragraphs;
+}
+
+/* -----------------------------
+   Helpers
+----------------------------- */
+
+function isBoilerplate(line: string): boolean {
+  return (
+    !/[a-z]/.test(line) ||
+    /www\.|@|toll free|e-?mail:|web:/i.test(line)
+  );
+}
+
+function joinWrappedLines(text: string): string {
+  return text
+    .replace(/-\s*\n\s*/g, "-")
+    .replace(/\s*\n\s*/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function normalizeMpn(value: string): string {
+  return value.replace(/[\s\-–—]/g, "").toUpperCase();
+}
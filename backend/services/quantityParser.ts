@@ -0,0 +1,309 @@
+// services/quantityParser.ts
+
+/**
+ * Turns raw spec strings into typed quantities.
+ *
+ * Like the extractors, this NEVER guesses: a value is only parsed when the
+ * whole string is numbers plus a known unit. Anything else ("3Ø Delta",
+ * "NEMA 4X", "UL 1449") stays kind "text" with its raw string untouched.
+ */
+
+/* -----------------------------
+   Types
+----------------------------- */
+
+export type QuantityKind =
+  | "single" // "4.5 in", "240,000 Amps", "3.2"
+  | "ratio" // "40/80", "120/208/240V": alternatives or paired values
+  | "range" // "10-20 A", "-40 to 85 °C"
+  | "dimensions" // "6¼” x 4½” x 3¼”"
+  | "text";
+
+export interface Quantity {
+  raw: string;
+  kind: QuantityKind;
+  values: number[];
+  // Canonical unit symbol ("A", "kA", "V", "in", "lb", ...), null when unitless
+  unit: string | null;
+}
+
+/* -----------------------------
+   Units
+----------------------------- */
+
+const UNIT_ALIASES: Record<string, string> = {
+  a: "A", amp: "A", amps: "A", ampere: "A", amperes: "A",
+  ka: "kA", kaic: "kAIC", ma: "mA",
+  v: "V", volt: "V", volts: "V", vrms: "Vrms", vac: "VAC", vdc: "VDC", kv: "kV", mv: "mV",
+  hz: "Hz", khz: "kHz", mhz: "MHz",
+  w: "W", watt: "W", watts: "W", kw: "kW", va: "VA", kva: "kVA",
+  j: "J", joule: "J", joules: "J",
+  in: "in", inch: "in", inches: "in", "\"": "in", "”": "in", "″": "in",
+  ft: "ft", feet: "ft", mm: "mm", cm: "cm", m: "m",
+  lb: "lb", lbs: "lb", pound: "lb", pounds: "lb", oz: "oz", kg: "kg", g: "g",
+  "°c": "°C", "°f": "°F",
+  s: "s", sec: "s", ms: "ms", "μs": "μs", "µs": "μs", us: "μs", usec: "μs", "μsec": "μs", ns: "ns",
+  ohm: "Ω", ohms: "Ω", "ω": "Ω",
+  "%": "%"
+};
+
+// Unit → [dimension, factor to the dimension's base unit], for comparisons.
+// AC/DC/RMS voltage qualifiers compare as plain volts; °C/°F are left out
+// because they are offset scales, so they only match the same unit.
+const UNIT_SCALES: Record<string, [string, number]> = {
+  A: ["current", 1], kA: ["current", 1000], kAIC: ["current", 1000], mA: ["current", 0.001],
+  V: ["voltage", 1], Vrms: ["voltage", 1], VAC: ["voltage", 1], VDC: ["voltage", 1],
+  kV: ["voltage", 1000], mV: ["voltage", 0.001],
+  Hz: ["frequency", 1], kHz: ["frequency", 1e3], MHz: ["frequency", 1e6],
+  W: ["power", 1], kW: ["power", 1000], VA: ["apparent_power", 1], kVA: ["apparent_power", 1000],
+  in: ["length", 1], ft: ["length", 12], mm: ["length", 1 / 25.4], cm: ["length", 1 / 2.54], m: ["length", 1 / 0.0254],
+  lb: ["mass", 1], oz: ["mass", 1 / 16], kg: ["mass", 2.20462], g: ["mass", 0.00220462],
+  s: ["time", 1], ms: ["time", 1e-3], "μs": ["time", 1e-6], ns: ["time", 1e-9]
+};
+
+// Relative tolerance for converted values (datasheets round conversions)
+const EQUIVALENCE_TOLERANCE = 0.01;
+
+// Single letters in key names are usually line labels (L-N-G, "A" phase),
+// so they never imply a unit on their own. "V" is the exception ("Mcov V").
+const AMBIGUOUS_KEY_UNITS = new Set(["a", "g", "m", "s", "j", "w"]);
+
+const FRACTIONS: Record<string, number> = { "¼": 0.25, "½": 0.5, "¾": 0.75 };
+
+const NUMBER_PATTERN =
+  "[-−]?(?:(?:\\d{1,3}(?:,\\d{3})+|\\d+)(?:\\.\\d+)?[¼½¾]?|\\.\\d+|[¼½¾])";
+
+const SCALAR_RE = new RegExp(`^(${NUMBER_PATTERN})\\s*([^\\d\\s].*)?$`);
+
+export function canonicalUnit(token: string): string | null {
+  return UNIT_ALIASES[token.trim().toLowerCase()] ?? null;
+}
+
+/* -----------------------------
+   Public API
+----------------------------- */
+
+/**
+ * `key` is the spec name the value came from. Unitless numbers take their
+ * unit from it ("shipping_weight_lbs" = 3.2 → 3.2 lb, "Mcov V" = "550" → 550 V).
+ */
+export function parseQuantity(
+  raw: string | number,
+  options?: { key?: string }
+): Quantity {
+  const text = String(raw).replace(/\s+/g, " ").trim();
+  const parsed =
+    parseDimensions(text) ??
+    parseRange(text) ??
+    parseRatio(text) ??
+    parseSingle(text);
+
+  if (!parsed) {
+    return { raw: text, kind: "text", values: [], unit: null };
+  }
+
+  return {
+    raw: text,
+    ...parsed,
+    unit: parsed.unit ?? unitFromKey(options?.key)
+  };
+}
+
+/**
+ * Display form used by spec tables: numbers without the unit, unit separately.
+ */
+export function formatQuantity(quantity: Quantity): { value: string; unit: string } {
+  const unit = quantity.unit ?? "";
+
+  switch (quantity.kind) {
+    case "single":
+      return { value: String(quantity.values[0]), unit };
+    case "ratio":
+      return { value: quantity.values.join("/"), unit };
+    case "range":
+      return { value: `${quantity.values[0]} to ${quantity.values[1]}`, unit };
+    case "dimensions":
+      return { value: quantity.values.join(" x "), unit };
+    default:
+      return { value: quantity.raw, unit: "" };
+  }
+}
+
+/**
+ * True when both quantities state the same numbers once units are converted
+ * ("240,000 Amps" vs "240 kA"). A missing unit on one side is not a mismatch.
+ * Text values are only equivalent when they read the same, ignoring case,
+ * spacing and punctuation.
+ */
+export function quantitiesEquivalent(a: Quantity, b: Quantity): boolean {
+  if (a.kind === "text" || b.kind === "text") {
+    return comparableText(a.raw) === comparableText(b.raw);
+  }
+
+  if (a.kind !== b.kind || a.values.length !== b.values.length) return false;
+
+  let factorA = 1;
+  let factorB = 1;
+
+  if (a.unit && b.unit && a.unit !== b.unit) {
+    const scaleA = UNIT_SCALES[a.unit];
+    const scaleB = UNIT_SCALES[b.unit];
+    if (!scaleA || !scaleB || scaleA[0] !== scaleB[0]) return false;
+    factorA = scaleA[1];
+    factorB = scaleB[1];
+  }
+
+  return a.values.every((value, i) => {
+    const left = value * factorA;
+    const right = b.values[i] * factorB;
+    const magnitude = Math.max(Math.abs(left), Math.abs(right));
+    return magnitude === 0 || Math.abs(left - right) / magnitude <= EQUIVALENCE_TOLERANCE;
+  });
+}
+
+/**
+ * Value in its dimension's base unit ("240 kA" → current, 240000), or null
+ * when the unit has no known scale.
+ */
+export function toBaseUnit(
+  value: number,
+  unit: string
+): { dimension: string; value: number } | null {
+  const scale = UNIT_SCALES[unit];
+  return scale ? { dimension: scale[0], value: value * scale[1] } : null;
+}
+
+/* -----------------------------
+   Forms
+----------------------------- */
+
+type ParsedForm = Omit<Quantity, "raw">;
+
+function parseSingle(text: string): ParsedForm | null {
+  const scalar = parseScalar(text);
+  if (!scalar) return null;
+  return { kind: "single", values: [scalar.value], unit: scalar.unit };
+}
+
+function parseRatio(text: string): ParsedForm | null {
+  if (!text.includes("/")) return null;
+
+  const parts = text.split(/\s*\/\s*/).map(parseScalar);
+  const unit = sharedUnit(parts);
+  if (unit === undefined) return null;
+
+  return { kind: "ratio", values: parts.map(p => p.value), unit };
+}
+
+function parseRange(text: string): ParsedForm | null {
+  const separators = [/\s+to\s+/i, /\s*[–—]\s*/];
+
+  for (const separator of separators) {
+    const parts = text.split(separator);
+    if (parts.length !== 2) continue;
+
+    const range = toRange(parts[0], parts[1]);
+    if (range) return range;
+  }
+
+  // Plain hyphen: try every position, a leading "-" is a sign
+  for (let i = 1; i < text.length; i++) {
+    if (text[i] !== "-") continue;
+
+    const range = toRange(text.slice(0, i), text.slice(i + 1));
+    if (range) return range;
+  }
+
+  return null;
+}
+
+function toRange(left: string, right: string): ParsedForm | null {
+  const parts = [parseScalar(left.trim()), parseScalar(right.trim())];
+  const unit = sharedUnit(parts);
+  if (unit === undefined) return null;
+
+  return { kind: "range", values: parts.map(p => p.value), unit };
+}
+
+function parseDimensions(text: string): ParsedForm | null {
+  const parts = text.split(/\s*[x×]\s*/i);
+  if (parts.length < 2) return null;
+
+  const scalars = parts.map(parseScalar);
+  const unit = sharedUnit(scalars);
+  if (unit === undefined) return null;
+
+  return { kind: "dimensions", values: scalars.map(s => s.value), unit };
+}
+
+/* -----------------------------
+   Helpers
+----------------------------- */
+
+function parseScalar(text: string): { value: number; unit: string | null } | null {
+  const match = text.match(SCALAR_RE);
+  if (!match) return null;
+
+  const value = parseNumber(match[1]);
+  if (value === null) return null;
+
+  if (!match[2]) return { value, unit: null };
+
+  const unit = canonicalUnit(match[2]);
+  return unit ? { value, unit } : null;
+}
+
+function parseNumber(token: string): number | null {
+  let text = token.replace("−", "-").replace(/,/g, "");
+  let fraction = 0;
+
+  const last = text.slice(-1);
+  if (FRACTIONS[last] !== undefined) {
+    fraction = FRACTIONS[last];
+    text = text.slice(0, -1);
+  }
+
+  const negative = text.startsWith("-");
+  const whole = text.replace(/^-/, "");
+  const value = (whole ? Number(whole) : 0) + fraction;
+
+  if (!Number.isFinite(value)) return null;
+  return negative ? -value : value;
+}
+
+/**
+ * All parts must be numeric and agree on a unit. The unit may be written
+ * once ("120/208/240V") or on every part ("6¼” x 4½” x 3¼”"); parts without
+ * one take it from the others. Returns undefined when the parts don't line up.
+ */
+function sharedUnit(
+  parts: ({ value: number; unit: string | null } | null)[]
+): string | null | undefined {
+  if (parts.some(p => p === null)) return undefined;
+
+  const units = Array.from(new Set(parts.map(p => p.unit).filter(Boolean)));
+  if (units.length > 1) return undefined;
+  return units[0] ?? null;
+}
+
+function comparableText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9øΩ%]+/g, "");
+}
+
+function unitFromKey(key: string | undefined): string | null {
+  if (!key) return null;
+
+  // "Total Surge Capacity (kA @ 8x20 μsec pulse)" → kA
+  const parenthesized = key.match(/\(\s*([^\s)@]+)/);
+  if (parenthesized) {
+    const unit = canonicalUnit(parenthesized[1]);
+    if (unit) return unit;
+  }
+
+  // "shipping_weight_lbs", "Max Surge Current Per Mode Ka" → last token
+  const tokens = key.split(/[^A-Za-z0-9μµ°%]+/).filter(Boolean);
+  const last = tokens[tokens.length - 1]?.toLowerCase();
+  if (!last || tokens.length < 2 || AMBIGUOUS_KEY_UNITS.has(last)) return null;
+
+  return canonicalUnit(last);
+}
@@ -0,0 +1,213 @@
+// services/resultStore.ts
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+/**
+ * Persistent store for pipeline results.
+ *
+ * Every run is written as one JSON file under
+ * <root>/<manufacturer>/<mpn>/<timestamp>-<id>.json (root: RESULT_STORE_DIR,
+ * default ./store/results), so yesterday's output can be looked at without
+ * repeating the search, crawl and LLM calls. Nothing is overwritten, not
+ * even by two runs of one MPN in the same millisecond; the newest file is
+ * the current result for the product.
+ */
+
+/* -----------------------------
+   Types
+----------------------------- */
+
+export type StoredResultStatus = "usable" | "unusable" | "error";
+
+export interface StoredResult {
+  mpn: string;
+  manufacturer: string;
+  storedAt: string;
+  jobId: string | null;
+  status: StoredResultStatus;
+  confidence: number | null;
+  failureReason: string | null;
+  error: string | null;
+  // Stage outputs; crawl keeps the summary only, not the page HTML
+  stages: {
+    discovery: any;
+    crawl: any;
+    extraction: any;
+    synthesis: any;
+  };
+  final: any;
+}
+
+export interface StoredProduct {
+  latest: StoredResult;
+  // Earlier runs, newest first, without stage outputs or content
+  history: Pick<StoredResult, "storedAt" | "jobId" | "status" | "confidence" | "failureReason">[];
+}
+
+export const STORED_RESULT_STATUSES: StoredResultStatus[] = ["usable", "unusable", "error"];
+
+/* -----------------------------
+   Configuration
+----------------------------- */
+
+function storeRoot(): string {
+  return (
+    process.env.RESULT_STORE_DIR ||
+    path.join(process.cwd(), "store", "results")
+  );
+}
+
+/* -----------------------------
+   Public API
+----------------------------- */
+
+/**
+ * Saves one run. `result` is what runProductPipeline returned, or null when
+ * it threw (then `error` says why).
+ */
+export function saveResult(input: {
+  mpn: string;
+  manufacturer: string;
+  jobId?: string;
+  result: any | null;
+  error?: string;
+}): StoredResult {
+  const { result } = input;
+  const final = result?.final ?? null;
+
+  const record: StoredResult = {
+    mpn: result?.mpn ?? input.mpn,
+    manufacturer: input.manufacturer,
+    storedAt: new Date().toISOString(),
+    jobId: input.jobId ?? null,
+    status: input.error || !result ? "error" : final?.usable ? "usable" : "unusable",
+    confidence: typeof final?.confidence === "number" ? final.confidence : null,
+    failureReason: final?.failureReason ?? null,
+    error: input.error ?? null,
+    stages: {
+      discovery: result?.discovery ?? null,
+      crawl: summarizeCrawl(result?.crawl),
+      extraction: result?.extraction ?? null,
+      synthesis: result?.synthesis ?? null
+    },
+    final
+  };
+
+  const dir = productDir(record.manufacturer, record.mpn);
+  // Random suffix: a batch may save the same MPN twice within a millisecond
+  const id = crypto.randomBytes(4).toString("hex");
+  const file = path.join(dir, `${record.storedAt.replace(/[:.]/g, "-")}-${id}.json`);
+
+  // Write-then-rename so readers never see a half-written file
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(record, null, 2));
+  fs.renameSync(`${file}.tmp`, file);
+
+  return record;
+}
+
+export function getStoredProduct(manufacturer: string, mpn: string): StoredProduct | null {
+  const runs = readRuns(productDir(manufacturer, mpn));
+  if (runs.length === 0) return null;
+
+  const [latest, ...earlier] = runs;
+  return {
+    latest,
+    history: earlier.map(run => ({
+      storedAt: run.storedAt,
+      jobId: run.jobId,
+      status: run.status,
+      confidence: run.confidence,
+      failureReason: run.failureReason
+    }))
+  };
+}
+
+/**
+ * Latest result of every stored product, newest first, optionally filtered
+ * by status and manufacturer.
+ */
+export function listStoredProducts(filter?: {
+  status?: StoredResultStatus;
+  manufacturer?: string;
+}): StoredResult[] {
+  const root = storeRoot();
+  if (!fs.existsSync(root)) return [];
+
+  const manufacturerDirs = filter?.manufacturer
+    ? [manufacturerSlug(filter.manufacturer)]
+    : fs.readdirSync(root);
+
+  const latest: StoredResult[] = [];
+
+  for (const manufacturerDir of manufacturerDirs) {
+    const base = path.join(root, manufacturerDir);
+    if (!fs.existsSync(base) || !fs.statSync(base).isDirectory()) continue;
+
+    for (const mpnDir of fs.readdirSync(base)) {
+      // Only the newest readable run is parsed; history is for the detail view
+      const [run] = readRuns(path.join(base, mpnDir), 1);
+      if (run && (!filter?.status || run.status === filter.status)) latest.push(run);
+    }
+  }
+
+  return latest.sort((a, b) => b.storedAt.localeCompare(a.storedAt));
+}
+
+/* -----------------------------
+   Helpers
+----------------------------- */
+
+function productDir(manufacturer: string, mpn: string): string {
+  return path.join(storeRoot(), manufacturerSlug(manufacturer), mpnSlug(mpn));
+}
+
+// Newest first; file names start with timestamps, so name order is time order.
+// Stops after `limit` readable runs, so callers needing only the latest do
+// not parse every stored run.
+function readRuns(dir: string, limit = Infinity): StoredResult[] {
+  if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) return [];
+
+  const files = fs
+    .readdirSync(dir)
+    .filter(file => file.endsWith(".json"))
+    .sort()
+    .reverse();
+
+  const runs: StoredResult[] = [];
+
+  for (const file of files) {
+    if (runs.length >= limit) break;
+
+    try {
+      runs.push(JSON.parse(fs.readFileSync(path.join(dir, file), "utf8")) as StoredResult);
+    } catch (err) {
+      console.warn(`[resultStore] skipping unreadable result ${path.join(dir, file)}: ${String(err)}`);
+    }
+  }
+
+  return runs;
+}
+
+function summarizeCrawl(crawl: any) {
+  if (!crawl) return null;
+  const { html, ...summary } = crawl;
+  return summary;
+}
+
+// "Surge Pure" and "SurgePure" share a directory
+function manufacturerSlug(manufacturer: string): string {
+  return manufacturer.toLowerCase().replace(/[^a-z0-9]/g, "") || "unknown";
+}
+
+// Letters, digits, "-" and "_" only: no dots or separators, so an MPN such
+// as "../x" cannot leave the manufacturer's directory
+function mpnSlug(mpn: string): string {
+  return (
+    mpn
+      .replace(/[–—\s]+/g, "-")
+      .toUpperCase()
+      .replace(/[^A-Z0-9-]+/g, "_") || "UNKNOWN"
+  );
+}
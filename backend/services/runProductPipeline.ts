@@ -1,18 +1,51 @@
-import { discoverProductSources } from "./discoveryService.js";
+import { classifySourceType, discoverProductSources, type DiscoveryResult } from "./discoveryService.js";
 import { crawlPage } from "./crawlService.js";
 import { extractFromHtml } from "./extractService.js";
-import { normalizeProducts } from "./normalizeProduct.js";
+import { fetchAdapterData } from "./extractAdapters.js";
+import { extractFromPdfUrl } from "./pdfExtractService.js";
+import { normalizeProducts, type ExtractedProduct } from "./normalizeProduct.js";
+import { knowledgeBaseSource } from "./knowledgeBase.js";
 import { synthesizeProductContent } from "./synthesizeService.js";
+import type { StageCacheOptions } from "./stageCache.js";
 import { buildSynthesisInput } from "./buildSynthesisInput.js";
+import { formatQuantity } from "./quantityParser.js";
+import { categoryLabel } from "./attributeDictionary.js";
+import { citeProductContent } from "./citations.js";
+import { applyVariantContent, applyVariantSpecs, resolveVariant } from "./variantRules.js";
+import type { SpecAttribute } from "../types.js";
+
+// Pages crawled and merged per MPN (OEM + distributors), in discovery rank order
+const MAX_HTML_SOURCES = 3;
+
+// Datasheet PDFs downloaded per MPN, in discovery rank order
+const MAX_PDF_SOURCES = 2;
+
+export type PipelineStage = "discovery" | "crawl" | "extraction" | "synthesis" | "final";
+
+export interface PipelineStageEvent {
+  mpn: string;
+  stage: PipelineStage;
+  data: any;
+  // Sub-scores known so far; later stages fill in the rest
+  confidenceBreakdown: {
+    discovery?: number;
+    crawl?: number;
+    extraction?: number;
+    synthesis?: number;
+  };
+}
 
 export async function runProductPipeline(input: {
   mpn: string;
   manufacturer: string;
+  onStage?: (event: PipelineStageEvent) => void;
+  cache?: StageCacheOptions;
 }) {
   const { mpn, manufacturer } = input;
   const canonicalMpn = mpn.replace(/[–—\s]+/g, "-").toUpperCase();
-  const isRAVariant = canonicalMpn.endsWith("RA");
-  const lookupMpn = isRAVariant ? canonicalMpn.replace(/RA$/, "") : canonicalMpn;
+  // Option suffixes are searched as their base model (see variantRules)
+  const variant = resolveVariant(canonicalMpn, manufacturer);
+  const lookupMpn = variant.baseMpn;
 
   const result: any = {
     mpn: canonicalMpn,
@@ -24,103 +57,240 @@ export async function runProductPipeline(input: {
     final: null
   };
 
+  const confidenceBreakdown: PipelineStageEvent["confidenceBreakdown"] = {};
+
+  const emit = (stage: PipelineStage, data: any) => {
+    if (!input.onStage) return;
+    try {
+      input.onStage({
+        mpn: canonicalMpn,
+        stage,
+        data,
+        confidenceBreakdown: { ...confidenceBreakdown }
+      });
+    } catch (err) {
+      // Listener failures must never break enrichment
+      console.error("PIPELINE STAGE LISTENER ERROR:", err);
+    }
+  };
+
+  // Curated local record, if any: a datasheet source that needs no crawl
+  const localRecord = knowledgeBaseSource(manufacturer, lookupMpn);
+
   // 1. DISCOVERY
-  const discovery = await discoverProductSources(lookupMpn, manufacturer);
+  let discovery: DiscoveryResult;
+  try {
+    discovery = await discoverProductSources(lookupMpn, manufacturer, { cache: input.cache });
+  } catch (err) {
+    // A curated record is enough to go on without search results
+    if (!localRecord) throw err;
+    console.error("PIPELINE DISCOVERY ERROR, using knowledge base record:", err);
+    discovery = { primaryProductUrl: null, backupUrls: [], pdfUrls: [], confidence: "low" };
+  }
   result.discovery = discovery;
 
-  if (!discovery.primaryProductUrl && discovery.backupUrls.length === 0) {
+  const discoveryConfidence =
+    discovery.confidence === "high" ? 0.9 :
+    discovery.confidence === "medium" ? 0.6 : 0.3;
+  confidenceBreakdown.discovery = discoveryConfidence;
+  emit("discovery", discovery);
+
+  const htmlUrls = [
+    discovery.primaryProductUrl,
+    ...(discovery.backupUrls || [])
+  ].filter(url => url && !isPdfUrl(url));
+
+  const pdfUrls = Array.from(new Set([
+    ...(discovery.pdfUrls || []),
+    ...(discovery.backupUrls || []).filter(isPdfUrl)
+  ]));
+
+  if (htmlUrls.length === 0 && pdfUrls.length === 0 && !localRecord) {
     result.final = {
       usable: false,
       confidence: 0,
       failureReason: "NO_PRODUCT_URLS"
     };
+    emit("final", result.final);
     return result;
   }
 
-  // 2. CRAWL (primary, then backups)
-  let crawl;
-  const urlsToTry = [
-    discovery.primaryProductUrl,
-    ...(discovery.backupUrls || [])
-  ].filter(Boolean);
+  // 2. CRAWL (OEM + distributors) + DATASHEET PDFs
+  const pages: { url: string; sourceType: "oem" | "distributor"; crawl: any }[] = [];
+  // URLs that yielded no page, with why (crawl policy and robots.txt included)
+  const skipped: { url: string; fallbackReason: string | null }[] = [];
+
+  // Sequential on purpose: each crawl may launch a browser
+  for (const url of htmlUrls) {
+    if (pages.length >= MAX_HTML_SOURCES) break;
+
+    const crawl = await crawlPage(url, { cache: input.cache });
+    if (!crawl?.html) {
+      skipped.push({ url, fallbackReason: crawl?.fallbackReason ?? null });
+      continue;
+    }
 
-  for (const url of urlsToTry.slice(0, 3)) {
-    crawl = await crawlPage(url);
-    if (crawl?.html) break;
+    pages.push({
+      url,
+      sourceType: classifySourceType(crawl.finalUrl || url, manufacturer),
+      crawl
+    });
   }
 
-  if (!crawl || !crawl.html) {
+  const pdfResults = [];
+  for (const url of pdfUrls.slice(0, MAX_PDF_SOURCES)) {
+    pdfResults.push({
+      url,
+      ...(await extractFromPdfUrl({ url, mpn: lookupMpn, manufacturer }))
+    });
+  }
+
+  const pdfProducts: ExtractedProduct[] = pdfResults
+    .filter(r => r.ok && r.qualityScore >= 0.3)
+    .map(r => r.product);
+
+  if (pages.length === 0 && pdfProducts.length === 0 && !localRecord) {
     result.final = {
       usable: false,
       confidence: 0,
-      failureReason: "CRAWL_FAILED"
+      failureReason: "CRAWL_FAILED",
+      skipped
     };
+    emit("final", result.final);
     return result;
   }
 
-  result.crawl = crawl;
+  // Primary page first; the rest are kept as a summary (HTML dropped)
+  result.crawl = pages[0]?.crawl ?? null;
 
-  // 3. EXTRACT
-  const extraction = extractFromHtml({
-    html: crawl.html,
-    sourceUrl: crawl.finalUrl,
-    mpn: lookupMpn,
-    manufacturer
+  // PDFs and local records are plain reads, scored like a successful fetch.
+  // Extra pages can only add data, so the best crawl sets the score.
+  const crawlConfidence = Math.max(
+    ...pages.map(page => (page.crawl.usedPlaywright ? 0.6 : 0.85)),
+    ...(pdfProducts.length > 0 || localRecord ? [0.85] : [])
+  );
+  confidenceBreakdown.crawl = crawlConfidence;
+  emit("crawl", {
+    finalUrl: pages[0]?.crawl.finalUrl ?? null,
+    usedPlaywright: pages[0]?.crawl.usedPlaywright ?? false,
+    crawlConfidence: pages[0]?.crawl.crawlConfidence ?? null,
+    fallbackReason: pages[0]?.crawl.fallbackReason ?? null,
+    pages: pages.map(summarizePage),
+    skipped,
+    pdfUrls: pdfResults.map(r => r.url),
+    knowledgeBase: localRecord?.sourceUrl ?? null
   });
 
+  // 3. EXTRACT
+  const extractions = [];
+  for (const page of pages) {
+    const extraction = extractFromHtml({
+      html: page.crawl.html,
+      sourceUrl: page.crawl.finalUrl,
+      mpn: lookupMpn,
+      manufacturer,
+      adapterData: await fetchAdapterData(page.crawl.html, page.crawl.finalUrl)
+    });
+
+    extractions.push({
+      page,
+      extraction,
+      usable: extraction.ok && (extraction.qualityScore ?? 0) >= 0.3
+    });
+  }
+
+  // OEM pages lead so they win confidence ties during normalization
+  const usablePages = extractions
+    .filter(e => e.usable)
+    .sort((a, b) =>
+      Number(b.page.sourceType === "oem") - Number(a.page.sourceType === "oem")
+    );
+
+  const lead = usablePages[0]?.extraction ?? extractions[0]?.extraction ?? null;
+
   result.extraction = {
-    ok: extraction.ok,
-    qualityScore: extraction.qualityScore,
-    specsCount: extraction.specs?.length || 0,
-    imagesCount: extraction.images?.length || 0,
-    datasheetsCount: extraction.datasheets?.length || 0,
-    images: extraction.images || [],
-    datasheets: extraction.datasheets || [],
-    sourceUrl: crawl.finalUrl 
+    ok: usablePages.length > 0 || pdfProducts.length > 0 || !!localRecord,
+    qualityScore: lead?.qualityScore ?? null,
+    specsCount: Object.keys(lead?.specs ?? {}).length,
+    imagesCount: lead?.images?.length || 0,
+    datasheetsCount: lead?.datasheets?.length || 0,
+    images: lead?.images || [],
+    datasheets: lead?.datasheets || [],
+    sourceUrl: lead?.sourceUrl ?? null,
+    pages: extractions.map(e => ({
+      url: e.extraction.sourceUrl,
+      sourceType: e.page.sourceType,
+      ok: e.extraction.ok,
+      usable: e.usable,
+      reason: e.extraction.reason ?? null,
+      qualityScore: e.extraction.qualityScore ?? 0,
+      adapters: e.extraction.adapters,
+      specEvidence: e.extraction.specEvidence,
+      specSources: e.extraction.specSources,
+      specsCount: Object.keys(e.extraction.specs ?? {}).length
+    })),
+    pdfs: pdfResults.map(r => ({
+      url: r.url,
+      ok: r.ok,
+      reason: r.reason ?? null,
+      qualityScore: r.qualityScore,
+      specsCount: Object.keys(r.product?.specs ?? {}).length
+    })),
+    knowledgeBase: localRecord?.sourceUrl ?? null
   };
 
-  if (!extraction.ok || (extraction.qualityScore ?? 0) < 0.3) {
+  const extractionConfidence = Math.max(
+    0,
+    ...usablePages.map(e => e.extraction.qualityScore ?? 0),
+    ...pdfResults.map(r => (r.ok ? r.qualityScore : 0)),
+    localRecord?.confidence ?? 0
+  );
+  confidenceBreakdown.extraction = extractionConfidence;
+  emit("extraction", result.extraction);
+
+  if (usablePages.length === 0 && pdfProducts.length === 0 && !localRecord) {
     result.final = {
       usable: false,
-      confidence: extraction.qualityScore ?? 0,
+      confidence: lead?.qualityScore ?? 0,
       failureReason: "LOW_EXTRACTION_QUALITY"
     };
+    emit("final", result.final);
     return result;
   }
 
   // 4. NORMALIZE
-  const normalized = normalizeProducts(
-    [
-      {
-        sourceType: "distributor",
-        confidence: extraction.qualityScore ?? 0,
-
-        ...extraction,
-
-        images: (extraction.images ?? []).map((img: string) => ({
-          url: img
-        }))
-      }
-    ],
-    { canonicalMpn }
+  const sources: ExtractedProduct[] = [
+    // Local record first so it has precedence on ties
+    ...(localRecord ? [localRecord] : []),
+    ...usablePages.map(({ page, extraction }): ExtractedProduct => ({
+      sourceType: page.sourceType,
+      confidence: extraction.qualityScore ?? 0,
+
+      ...extraction,
+
+      images: (extraction.images ?? []).map((img: string) => ({
+        url: img
+      }))
+    })),
+    ...pdfProducts
+  ];
+
+  const normalized = applyVariantSpecs(
+    normalizeProducts(sources, { canonicalMpn }),
+    variant
   );
 
   // 5. SYNTHESIZE
   const synthesisInput = buildSynthesisInput(normalized);
-  const synthesis = await synthesizeProductContent(synthesisInput);
+  const synthesis = await synthesizeProductContent(synthesisInput, { cache: input.cache });
 
   result.synthesis = synthesis;
 
-  // 6. FINAL CONFIDENCE
-  const discoveryConfidence =
-    discovery.confidence === "high" ? 0.9 :
-    discovery.confidence === "medium" ? 0.6 : 0.3;
-
-  const crawlConfidence =
-    crawl.usedPlaywright ? 0.6 : 0.85;
-
-  const extractionConfidence = extraction.qualityScore ?? 0;
   const synthesisConfidence = synthesis._confidence ?? 0;
+  confidenceBreakdown.synthesis = synthesisConfidence;
+  emit("synthesis", synthesis);
+
+  // 6. FINAL CONFIDENCE
 
   const finalConfidence =
     0.25 * discoveryConfidence +
@@ -129,27 +299,23 @@ export async function runProductPipeline(input: {
     0.25 * synthesisConfidence;
 
 
-  const specTable =
-  synthesis?.keyFeatures?.map((f: string) => {
-    const idx = f.indexOf(":");
-    if (idx === -1) return null;
-
-    return {
-      name: f.slice(0, idx).trim(),
-      value: f.slice(idx + 1).trim()
-    };
-  }).filter(Boolean) ?? [];
+  // Built from normalized specs, so rows keep their parsed units
+  const specTable: SpecAttribute[] = Object.entries(normalized.specs).map(
+    ([attribute, spec]) => ({
+      attribute,
+      ...formatQuantity(spec.quantity),
+      ...(spec.inherited ? { inherited: true } : {})
+    })
+  );
 
   result.final = {
     ...synthesis,
     specTable,
-    confidenceBreakdown: {
-      discovery: discoveryConfidence,
-      crawl: crawlConfidence,
-      extraction: extractionConfidence,
-      synthesis: synthesisConfidence
-    },
-    productType: (() => {
+    unmappedSpecs: normalized.unmappedSpecs,
+    conflicts: normalized.conflicts,
+    family: normalized.family,
+    confidenceBreakdown: { ...confidenceBreakdown },
+    productType: categoryLabel(normalized.category) ?? (() => {
       if (!synthesis) return null;
       const text = `${synthesis.displayTitle ?? ""} ${synthesis.overview ?? ""}`.toLowerCase();
       if (text.includes("surge")) return "Surge Protection Device";
@@ -160,44 +326,54 @@ export async function runProductPipeline(input: {
     })(),
     usable: finalConfidence >= 0.65,
     confidence: Number(finalConfidence.toFixed(2)),
-    images: extraction.images || [],
-    datasheets: extraction.datasheets || [],
-    sourceUrl: crawl.finalUrl
+    images: Array.from(new Set(usablePages.flatMap(e => e.extraction.images ?? []))),
+    datasheets: [
+      ...usablePages.flatMap(e => e.extraction.datasheets ?? []),
+      ...pdfProducts.flatMap(p => p.datasheets ?? [])
+    ].filter((d, i, all) => all.findIndex(o => o.url === d.url) === i),
+    sourceUrl:
+      usablePages[0]?.extraction.sourceUrl ??
+      pdfProducts[0]?.sourceUrl ??
+      localRecord.sourceUrl,
+    sources: sources.map(p => ({ url: p.sourceUrl, sourceType: p.sourceType }))
   };
 
-  // 7. RA VARIANT INJECTION (non-breaking, post-synthesis)
-  if (isRAVariant && result.final?.usable) {
-    // Ensure display title reflects RA variant
-    result.final.displayTitle = canonicalMpn;
-
-    // Inject Remote Alarm into key features
-    result.final.keyFeatures = [
-      ...(result.final.keyFeatures ?? []),
-      "Remote Alarm: Yes"
-    ];
-
-    // Inject Remote Alarm into spec table
-    result.final.specTable = [
-      ...(result.final.specTable ?? []),
-      { name: "Remote Alarm", value: "Yes" }
-    ];
-
-    // Inject Remote Alarm into textual descriptions
-    const raLine =
-      " This RA variant includes a remote alarm feature for system monitoring and alerting.";
-
-    if (result.final.overview) {
-      result.final.overview += raLine;
-    }
+  // 7. VARIANT CONTENT (variant specs were applied before synthesis)
+  if (variant.rules.length > 0 && result.final?.usable) {
+    applyVariantContent(result.final, variant);
+  }
 
-    if (result.final.shortDescription) {
-      result.final.shortDescription += raLine;
-    }
+  // 8. CITATIONS (after variant content, so added claims are cited too)
+  const citations = citeProductContent({
+    normalized,
+    keyFeatures: result.final.keyFeatures ?? [],
+    overview: result.final.overview ?? "",
+    specTable: result.final.specTable
+  });
 
-    if (result.final.longDescription) {
-      result.final.longDescription += raLine;
-    }
-  }
+  result.final.specTable = citations.specTable;
+  result.final.sources = citations.sources;
+  result.final.citationMap = citations.citationMap;
+  result.final.citations = {
+    keyFeatures: citations.keyFeatures,
+    overview: citations.overview
+  };
+
+  emit("final", result.final);
 
   return result;
+}
+
+function summarizePage(page: { url: string; sourceType: string; crawl: any }) {
+  return {
+    url: page.crawl.finalUrl,
+    sourceType: page.sourceType,
+    usedPlaywright: page.crawl.usedPlaywright,
+    crawlConfidence: page.crawl.crawlConfidence,
+    fallbackReason: page.crawl.fallbackReason ?? null
+  };
+}
+
+function isPdfUrl(url: string): boolean {
+  return url.toLowerCase().split(/[?#]/)[0].endsWith(".pdf");
 }
\ No newline at end of file
@@ -0,0 +1,138 @@
+// services/scheduler.ts
+
+/**
+ * Batch scheduling primitives.
+ *
+ * - `runWithConcurrency` bounds how many MPNs run through the pipeline at once.
+ * - `withDomainThrottle` serializes and spaces out requests to the same host,
+ *   so a batch whose URLs all resolve to one distributor does not hammer it.
+ *   A host's robots.txt Crawl-delay can only lengthen the gap.
+ */
+
+export const ENRICH_CONCURRENCY = positiveInt(process.env.ENRICH_CONCURRENCY, 4);
+
+const DOMAIN_CONCURRENCY = positiveInt(process.env.CRAWL_DOMAIN_CONCURRENCY, 1);
+const DOMAIN_DELAY_MS = nonNegativeInt(process.env.CRAWL_DOMAIN_DELAY_MS, 1500);
+
+/* -----------------------------
+   Bounded concurrency
+----------------------------- */
+
+/**
+ * Runs `worker` over every item with at most `limit` in flight.
+ * Workers are expected to handle their own errors; a rejection aborts the batch.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const lanes = Math.max(1, Math.min(limit, items.length));
+
+  const runLane = async () => {
+    while (next < items.length) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: lanes }, runLane));
+}
+
+/* -----------------------------
+   Per-domain politeness
+----------------------------- */
+
+interface DomainState {
+  active: number;
+  nextStartAt: number;
+  waiters: Array<() => void>;
+}
+
+const domains = new Map<string, DomainState>();
+
+/**
+ * Runs `task` once the target host has a free slot and its politeness delay
+ * has elapsed since the previous request started.
+ */
+export async function withDomainThrottle<T>(
+  url: string,
+  task: () => Promise<T>,
+  options?: { delayMs?: number }
+): Promise<T> {
+  const host = hostOf(url);
+  if (!host) return task();
+
+  await acquire(host, Math.max(DOMAIN_DELAY_MS, options?.delayMs ?? 0));
+  try {
+    return await task();
+  } finally {
+    release(host);
+  }
+}
+
+async function acquire(host: string, delayMs: number): Promise<void> {
+  const state = stateFor(host);
+
+  if (state.active < DOMAIN_CONCURRENCY) {
+    state.active++;
+  } else {
+    // Slot is handed over directly by release()
+    await new Promise<void>(resolve => state.waiters.push(resolve));
+  }
+
+  const now = Date.now();
+  const wait = state.nextStartAt - now;
+  state.nextStartAt = Math.max(now, state.nextStartAt) + delayMs;
+
+  if (wait > 0) {
+    await sleep(wait);
+  }
+}
+
+function release(host: string) {
+  const state = stateFor(host);
+  const next = state.waiters.shift();
+
+  if (next) {
+    next();
+  } else {
+    state.active--;
+  }
+}
+
+/* -----------------------------
+   Helpers
+----------------------------- */
+
+function stateFor(host: string): DomainState {
+  let state = domains.get(host);
+  if (!state) {
+    state = { active: 0, nextStartAt: 0, waiters: [] };
+    domains.set(host, state);
+  }
+  return state;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "").toLowerCase();
+  } catch {
+    return "";
+  }
+}
+
+function sleep(ms: number) {
+  return new Promise<void>(resolve => setTimeout(resolve, ms));
+}
+
+function positiveInt(raw: string | undefined, fallback: number): number {
+  const n = Number(raw);
+  return Number.isInteger(n) && n > 0 ? n : fallback;
+}
+
+function nonNegativeInt(raw: string | undefined, fallback: number): number {
+  const n = Number(raw);
+  return raw !== undefined && raw !== "" && Number.isInteger(n) && n >= 0 ? n : fallback;
+}
@@ -0,0 +1,151 @@
+// services/searchProviders.ts
+import "dotenv/config";
+import fs from "fs";
+import path from "path";
+import fetch from "node-fetch";
+import { withRecording } from "./httpFixtures.js";
+
+/* -----------------------------
+   Types
+----------------------------- */
+
+export interface SearchResult {
+  link: string;
+  title?: string;
+  snippet?: string;
+}
+
+/**
+ * A web search backend for discovery.
+ * Providers only fetch and normalize results; ranking stays in discoveryService.
+ */
+export interface SearchProvider {
+  name: string;
+  search(query: string): Promise<SearchResult[]>;
+}
+
+/* -----------------------------
+   Provider selection
+----------------------------- */
+
+/**
+ * Resolves the provider from SEARCH_PROVIDER ("serper" | "fixture").
+ * Defaults to Serper so existing deployments keep their behaviour.
+ */
+export function getSearchProvider(): SearchProvider {
+  const name = (process.env.SEARCH_PROVIDER || "serper").toLowerCase();
+
+  switch (name) {
+    case "serper":
+      return createSerperProvider();
+    case "fixture":
+      return createFixtureProvider();
+    default:
+      throw new Error(`Unknown SEARCH_PROVIDER: ${name}`);
+  }
+}
+
+/* -----------------------------
+   Serper
+----------------------------- */
+
+const SERPER_ENDPOINT = "https://google.serper.dev/search";
+
+export function createSerperProvider(
+  apiKey: string | undefined = process.env.SERPER_API_KEY
+): SearchProvider {
+  return {
+    name: "serper",
+    async search(query: string) {
+      // Raw Serper JSON is what gets recorded, so replay exercises parsing too
+      const data = await withRecording("serper", query, async () => {
+        // Checked per query so a missing key fails discovery, not the server
+        if (!apiKey) {
+          throw new Error("SERPER_API_KEY not set in environment");
+        }
+
+        const response = await fetch(SERPER_ENDPOINT, {
+          method: "POST",
+          headers: {
+            "X-API-KEY": apiKey,
+            "Content-Type": "application/json"
+          },
+          body: JSON.stringify({
+            q: query,
+            num: 10
+          })
+        });
+
+        if (!response.ok) {
+          throw new Error(`Serper error: ${response.status}`);
+        }
+
+        return response.json();
+      });
+
+      return parseSearchResponse(data);
+    }
+  };
+}
+
+/* -----------------------------
+   Local fixtures (offline / tests)
+----------------------------- */
+
+/**
+ * Serves results from `<dir>/<query-slug>.json`.
+ * A fixture may be a plain SearchResult[] or a raw Serper response body.
+ * Missing fixtures yield no results, mirroring an empty search.
+ */
+export function createFixtureProvider(
+  dir: string = process.env.SEARCH_FIXTURE_DIR ||
+    path.join(process.cwd(), "tests", "fixtures", "search")
+): SearchProvider {
+  return {
+    name: "fixture",
+    async search(query: string) {
+      const file = path.join(dir, `${querySlug(query)}.json`);
+
+      if (!fs.existsSync(file)) {
+        console.warn(`[search:fixture] no fixture for query ${query} (${file})`);
+        return [];
+      }
+
+      try {
+        return parseSearchResponse(JSON.parse(fs.readFileSync(file, "utf8")));
+      } catch (err) {
+        throw new Error(`Failed to read search fixture ${file}: ${String(err)}`);
+      }
+    }
+  };
+}
+
+export function querySlug(query: string): string {
+  return query
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/* -----------------------------
+   Response normalization
+----------------------------- */
+
+// Robust parsing: support multiple Serper response shapes
+function parseSearchResponse(data: any): SearchResult[] {
+  const organic = Array.isArray(data)
+    ? data
+    : Array.isArray(data?.organic)
+      ? data.organic
+      : Array.isArray(data?.results)
+        ? data.results
+        : [];
+
+  return organic
+    .map((r: any) => ({
+      link: r.link || r.url || "",
+      title: r.title || "",
+      snippet: r.snippet || r.description || ""
+    }))
+    .filter((r: SearchResult) => r.link);
+}
@@ -0,0 +1,176 @@
+// services/stageCache.ts
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { fixtureMode } from "./httpFixtures.js";
+
+/**
+ * Cache for the expensive pipeline stages, so enriching an MPN again does
+ * not repeat the search query, the page crawl or the LLM call.
+ *
+ * - discovery: search results, keyed by provider + query
+ * - crawl: crawl results, keyed by URL
+ * - synthesis: LLM output, keyed by a hash of provider, model and SynthesisInput
+ *
+ * Entries are JSON files under STAGE_CACHE_DIR (default ./store/cache), one
+ * folder per stage, and expire after the stage TTL:
+ * DISCOVERY_CACHE_TTL_MS, CRAWL_CACHE_TTL_MS, SYNTHESIS_CACHE_TTL_MS
+ * (0 turns a stage off). The cache stays out of the way while
+ * PARTLY_FIXTURE_MODE records or replays, so fixture runs see real calls.
+ *
+ * Per request, `bypass` skips the cache entirely and `invalidate` drops the
+ * entry and stores a fresh result; both take `true` or a list of stages.
+ */
+
+/* -----------------------------
+   Types
+----------------------------- */
+
+export type CacheStage = "discovery" | "crawl" | "synthesis";
+
+export interface StageCacheOptions {
+  bypass?: boolean | CacheStage[];
+  invalidate?: boolean | CacheStage[];
+}
+
+interface CacheEntry<T> {
+  stage: CacheStage;
+  key: unknown;
+  storedAt: string;
+  expiresAt: string;
+  value: T;
+}
+
+export const CACHE_STAGES: CacheStage[] = ["discovery", "crawl", "synthesis"];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const DEFAULT_TTL_MS: Record<CacheStage, number> = {
+  discovery: 7 * 24 * HOUR_MS,
+  crawl: 24 * HOUR_MS,
+  synthesis: 30 * 24 * HOUR_MS
+};
+
+/* -----------------------------
+   Configuration
+----------------------------- */
+
+function cacheRoot(): string {
+  return process.env.STAGE_CACHE_DIR || path.join(process.cwd(), "store", "cache");
+}
+
+export function stageTtlMs(stage: CacheStage): number {
+  const configured = process.env[`${stage.toUpperCase()}_CACHE_TTL_MS`];
+  if (configured === undefined || configured === "") return DEFAULT_TTL_MS[stage];
+
+  const ttl = Number(configured);
+  return Number.isFinite(ttl) && ttl >= 0 ? ttl : DEFAULT_TTL_MS[stage];
+}
+
+/* -----------------------------
+   Public API
+----------------------------- */
+
+/**
+ * Wraps one stage call. `key` identifies the request and is hashed;
+ * `shouldStore` can refuse to cache a result (e.g. a failed crawl).
+ */
+export async function withStageCache<T>(
+  stage: CacheStage,
+  key: unknown,
+  options: StageCacheOptions | undefined,
+  produce: () => Promise<T>,
+  shouldStore: (value: T) => boolean = () => true
+): Promise<T> {
+  const ttl = stageTtlMs(stage);
+
+  if (ttl === 0 || fixtureMode() !== "off" || appliesTo(options?.bypass, stage)) {
+    return produce();
+  }
+
+  const file = entryPath(stage, key);
+
+  if (appliesTo(options?.invalidate, stage)) {
+    fs.rmSync(file, { force: true });
+  } else {
+    const cached = readEntry<T>(file);
+    if (cached) {
+      console.log(`[cache] ${stage} hit ${describeKey(key)}`);
+      return cached.value;
+    }
+  }
+
+  const value = await produce();
+
+  if (shouldStore(value)) {
+    const now = Date.now();
+    writeEntry(file, {
+      stage,
+      key,
+      storedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + ttl).toISOString(),
+      value
+    });
+  }
+
+  return value;
+}
+
+/**
+ * Reads `cache: { bypass, invalidate }` from a request body. Anything
+ * unrecognised is dropped rather than rejected.
+ */
+export function parseStageCacheOptions(raw: any): StageCacheOptions | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+
+  const stages = (value: any): boolean | CacheStage[] | undefined => {
+    if (typeof value === "boolean") return value;
+    if (Array.isArray(value)) return value.filter(stage => CACHE_STAGES.includes(stage));
+    return undefined;
+  };
+
+  return { bypass: stages(raw.bypass), invalidate: stages(raw.invalidate) };
+}
+
+/* -----------------------------
+   Helpers
+----------------------------- */
+
+function appliesTo(setting: boolean | CacheStage[] | undefined, stage: CacheStage): boolean {
+  return Array.isArray(setting) ? setting.includes(stage) : setting === true;
+}
+
+function entryPath(stage: CacheStage, key: unknown): string {
+  const hash = crypto.createHash("sha256").update(JSON.stringify(key)).digest("hex");
+  return path.join(cacheRoot(), stage, `${hash}.json`);
+}
+
+function readEntry<T>(file: string): CacheEntry<T> | null {
+  if (!fs.existsSync(file)) return null;
+
+  try {
+    const entry: CacheEntry<T> = JSON.parse(fs.readFileSync(file, "utf8"));
+    if (Date.parse(entry.expiresAt) > Date.now()) return entry;
+  } catch (err) {
+    console.warn(`[cache] dropping unreadable entry ${file}: ${String(err)}`);
+  }
+
+  fs.rmSync(file, { force: true });
+  return null;
+}
+
+// Write-then-rename so concurrent jobs never read a half-written entry
+function writeEntry(file: string, entry: CacheEntry<unknown>) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(entry));
+  fs.renameSync(tmp, file);
+}
+
+function describeKey(key: unknown): string {
+  if (typeof key === "string") return key;
+  if (key && typeof key === "object" && "label" in key) {
+    return String((key as any).label);
+  }
+  return JSON.stringify(key).slice(0, 80);
+}
@@ -0,0 +1,294 @@
+// services/structuredData.ts
+import * as cheerio from "cheerio";
+import { URL } from "url";
+
+/**
+ * schema.org Product / ProductGroup data embedded in a page.
+ *
+ * JSON-LD, microdata (itemscope/itemprop) and RDFa (typeof/property) are
+ * read into the same plain-object shape, so one mapper turns any of them
+ * into specs: sku, mpn, gtin*, brand, additionalProperty name/value pairs
+ * and the isVariantOf group. Values are copied as written; nothing is
+ * inferred.
+ *
+ * Offers (price, availability, condition) describe one seller's listing,
+ * not the part, so they are returned on their own and never become specs.
+ *
+ * When a page carries several products (a ProductGroup with hasVariant, or
+ * "related items" markup) only the one whose sku/mpn matches the requested
+ * MPN is used; if none matches, nothing is returned. A lone product is
+ * used as is.
+ */
+
+/* -----------------------------
+   Types
+----------------------------- */
+
+export type StructuredDataSyntax = "json-ld" | "microdata" | "rdfa";
+
+export interface StructuredOffer {
+  price: string | null;
+  currency: string | null;
+  availability: string | null;
+  itemCondition: string | null;
+}
+
+export interface StructuredProduct {
+  syntax: StructuredDataSyntax;
+  specs: Record<string, string>;
+  offers: StructuredOffer | null;
+  images: string[];
+  name: string | null;
+  description: string | null;
+}
+
+// Microdata / RDFa have no @type key; the scope's type is stored here
+const TYPE_KEY = "@type";
+
+const MAX_VALUE_LENGTH = 180;
+
+/* -----------------------------
+   Public API
+----------------------------- */
+
+export function extractStructuredProduct(
+  $: cheerio.CheerioAPI,
+  baseUrl: string,
+  mpn: string
+): StructuredProduct | null {
+  const candidates: { syntax: StructuredDataSyntax; item: any }[] = [
+    ...jsonLdItems($).map(item => ({ syntax: "json-ld" as const, item })),
+    ...scopedItems($, "microdata").map(item => ({ syntax: "microdata" as const, item })),
+    ...scopedItems($, "rdfa").map(item => ({ syntax: "rdfa" as const, item }))
+  ];
+
+  // A group stands for its variants; each variant keeps a link back to it
+  const products = candidates.flatMap(({ syntax, item }) => {
+    if (!hasType(item, "ProductGroup")) return hasType(item, "Product") ? [{ syntax, item }] : [];
+
+    const variants = asArray(item.hasVariant).filter(v => v && typeof v === "object");
+    return variants.length > 0
+      ? variants.map(variant => ({ syntax, item: { ...variant, isVariantOf: variant.isVariantOf ?? item } }))
+      : [{ syntax, item }];
+  });
+
+  if (products.length === 0) return null;
+
+  // With several products and no match, any pick could be a related item
+  // or another variant, and its SKU/price would override the page's specs
+  const wanted = compact(mpn);
+  const chosen =
+    products.find(({ item }) => [item.sku, item.mpn].some(id => compact(text(id)) === wanted)) ??
+    (products.length === 1 ? products[0] : null);
+
+  return chosen ? toStructuredProduct(chosen.syntax, chosen.item, baseUrl) : null;
+}
+
+/* -----------------------------
+   Mapping
+----------------------------- */
+
+function toStructuredProduct(syntax: StructuredDataSyntax, item: any, baseUrl: string): StructuredProduct {
+  const group = item.isVariantOf && typeof item.isVariantOf === "object" ? item.isVariantOf : null;
+  const specs: Record<string, string> = {};
+
+  addSpec(specs, "SKU", text(item.sku));
+  addSpec(specs, "MPN", text(item.mpn));
+
+  for (const key of ["gtin", "gtin8", "gtin12", "gtin13", "gtin14"]) {
+    addSpec(specs, key === "gtin" ? "GTIN" : `GTIN-${key.slice(4)}`, text(item[key]));
+  }
+
+  addSpec(specs, "Brand", nameOf(item.brand) ?? nameOf(group?.brand));
+
+  if (group) {
+    addSpec(specs, "Product Group", text(group.name));
+    addSpec(specs, "Product Group ID", text(group.productGroupID));
+  }
+
+  // Group-wide properties first, so the variant's own values win
+  for (const property of [...asArray(group?.additionalProperty), ...asArray(item.additionalProperty)]) {
+    const name = text(property?.name);
+    const value = text(property?.value);
+    if (!name || !value) continue;
+
+    const unit = text(property.unitText);
+    addSpec(specs, name.replace(/:$/, ""), unit && !value.endsWith(unit) ? `${value} ${unit}` : value);
+  }
+
+  const offer = asArray(item.offers)
+    .flatMap(o => (hasType(o, "AggregateOffer") ? asArray(o.offers).concat(o) : [o]))
+    .find(o => o && typeof o === "object");
+
+
+  const images = [...asArray(item.image), ...asArray(group?.image)]
+    .map(image => (typeof image === "object" ? text(image?.url) ?? text(image?.contentUrl) : text(image)))
+    .filter((src): src is string => !!src)
+    .map(src => absoluteUrl(src, baseUrl))
+    .filter((src): src is string => !!src);
+
+  return {
+    syntax,
+    specs,
+    offers: offer
+      ? {
+          price: text(offer.price) ?? text(offer.lowPrice),
+          currency: text(offer.priceCurrency),
+          availability: schemaEnum(offer.availability),
+          itemCondition: schemaEnum(offer.itemCondition)
+        }
+      : null,
+    images: Array.from(new Set(images)),
+    name: text(item.name) ?? text(group?.name),
+    description: text(item.description) ?? text(group?.description)
+  };
+}
+
+/* -----------------------------
+   JSON-LD
+----------------------------- */
+
+function jsonLdItems($: cheerio.CheerioAPI): any[] {
+  const items: any[] = [];
+
+  $("script[type='application/ld+json']").each((_, el) => {
+    let json: any;
+    try {
+      json = JSON.parse($(el).text());
+    } catch {
+      return;
+    }
+
+    // Arrays and @graph both hold several top-level nodes; a WebPage may
+    // wrap the product as its mainEntity
+    for (const node of asArray(json).flatMap(n => (n?.["@graph"] ? asArray(n["@graph"]) : [n]))) {
+      if (!node || typeof node !== "object") continue;
+      items.push(node);
+      for (const entity of asArray(node.mainEntity)) {
+        if (entity && typeof entity === "object") items.push(entity);
+      }
+    }
+  });
+
+  return items;
+}
+
+/* -----------------------------
+   Microdata and RDFa
+----------------------------- */
+
+const SCOPE_SYNTAX = {
+  microdata: { scope: "itemscope", type: "itemtype", prop: "itemprop" },
+  rdfa: { scope: "typeof", type: "typeof", prop: "property" }
+};
+
+function scopedItems($: cheerio.CheerioAPI, syntax: "microdata" | "rdfa"): any[] {
+  const attrs = SCOPE_SYNTAX[syntax];
+
+  const isProductScope = (el: any) =>
+    schemaTypes($(el).attr(attrs.type)).some(type => type === "Product" || type === "ProductGroup");
+
+  // Outermost product scopes, wherever they sit; products nested in a
+  // product (variants, isVariantOf) are read as its property values
+  return $(`[${attrs.scope}]`)
+    .toArray()
+    .filter(el => isProductScope(el) && !$(el).parents(`[${attrs.scope}]`).toArray().some(isProductScope))
+    .map(el => readScope($, el, syntax));
+}
+
+function readScope($: cheerio.CheerioAPI, scope: any, syntax: "microdata" | "rdfa"): any {
+  const attrs = SCOPE_SYNTAX[syntax];
+  const item: any = { [TYPE_KEY]: schemaTypes($(scope).attr(attrs.type)) };
+
+  const visit = (parent: any) => {
+    $(parent)
+      .children()
+      .each((_, el) => {
+        const node = $(el);
+        const props = (node.attr(attrs.prop) ?? "").split(/\s+/).filter(Boolean).map(localName);
+        const isScope = node.is(`[${attrs.scope}]`);
+
+        if (props.length > 0) {
+          const value = isScope ? readScope($, el, syntax) : propertyValue(node);
+          for (const prop of props) {
+            item[prop] = item[prop] === undefined ? value : asArray(item[prop]).concat(value);
+          }
+        }
+
+        // A nested scope owns its descendants
+        if (!isScope) visit(el);
+      });
+  };
+
+  visit(scope);
+  return item;
+}
+
+function propertyValue(node: cheerio.Cheerio<any>): string | null {
+  const content = node.attr("content");
+  if (content !== undefined) return content;
+
+  const tag = (node.prop("tagName") ?? "").toLowerCase();
+  if (tag === "a" || tag === "link") return node.attr("href") ?? null;
+  if (tag === "img" || tag === "source") return node.attr("src") ?? null;
+  if (tag === "time") return node.attr("datetime") ?? node.text();
+  if (tag === "data" || tag === "meter") return node.attr("value") ?? node.text();
+
+  return node.text();
+}
+
+/* -----------------------------
+   Helpers
+----------------------------- */
+
+function hasType(item: any, type: string): boolean {
+  return asArray(item?.[TYPE_KEY]).some(t => localName(String(t)) === type);
+}
+
+// "http://schema.org/Product", "schema:Product" → "Product"
+function localName(value: string): string {
+  return value.replace(/^.*[/#:]/, "");
+}
+
+function schemaTypes(raw: string | undefined): string[] {
+  return (raw ?? "").split(/\s+/).filter(Boolean).map(localName);
+}
+
+function schemaEnum(value: unknown): string | null {
+  const raw = text(value);
+  return raw ? localName(raw) : null;
+}
+
+function nameOf(value: any): string | null {
+  if (Array.isArray(value)) return nameOf(value[0]);
+  if (value && typeof value === "object") return text(value.name);
+  return text(value);
+}
+
+function text(value: unknown): string | null {
+  if (Array.isArray(value)) return text(value[0]);
+  if (value === null || value === undefined || typeof value === "object") return null;
+  const cleaned = String(value).replace(/\s+/g, " ").trim();
+  return cleaned || null;
+}
+
+function addSpec(specs: Record<string, string>, label: string, value: string | null) {
+  if (value && value.length < MAX_VALUE_LENGTH) specs[label] = value;
+}
+
+function asArray(value: any): any[] {
+  if (value === null || value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function compact(value: string | null): string {
+  return (value ?? "").toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function absoluteUrl(href: string, base: string): string | null {
+  try {
+    return new URL(href, base).toString();
+  } catch {
+    return null;
+  }
+}
@@ -1,17 +1,16 @@
-import { GoogleGenAI } from "@google/genai";
+import crypto from "crypto";
+import { withRecording } from "./httpFixtures.js";
+import { withStageCache, type StageCacheOptions } from "./stageCache.js";
+import { getLlmProvider, type LlmProvider } from "./llmProviders.js";
+import { verifyClaims, type UnsupportedClaim } from "./claimVerifier.js";
 
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
-if (!GEMINI_API_KEY) {
-  throw new Error("GEMINI_API_KEY not set in environment");
-}
-
-const client = new GoogleGenAI({ apiKey: GEMINI_API_KEY });
-const GEMINI_MODEL = process.env.GEMINI_MODEL || "models/gemini-2.5-flash";
+// Confidence lost per number/standard/certification the input does not support
+const UNSUPPORTED_CLAIM_PENALTY = 0.1;
 
 function extractJson(text: string): any {
   const raw = (text ?? "").trim();
   if (!raw) {
-    throw new Error("Empty Gemini response text");
+    throw new Error("Empty LLM response text");
   }
 
   const cleaned = raw.replace(/^\uFEFF/, "").trim();
@@ -32,7 +31,7 @@ function extractJson(text: string): any {
   // 2) Balanced-brace extraction: find first complete {...} object
   const start = cleaned.indexOf("{");
   if (start === -1) {
-    throw new Error("No JSON object start '{' found in Gemini response");
+    throw new Error("No JSON object start '{' found in LLM response");
   }
 
   let depth = 0;
@@ -78,7 +77,7 @@ function extractJson(text: string): any {
           return JSON.parse(sanitized);
         } catch (e: any) {
           throw new Error(
-            "Failed to parse Gemini response as JSON after sanitization. " +
+            "Failed to parse LLM response as JSON after sanitization. " +
               "Error: " +
               (e?.message ?? String(e))
           );
@@ -87,7 +86,7 @@ function extractJson(text: string): any {
     }
   }
 
-  throw new Error("Unterminated JSON object in Gemini response (no matching '}')");
+  throw new Error("Unterminated JSON object in LLM response (no matching '}')");
 }
 
 
@@ -119,11 +118,14 @@ export interface SynthesisOutput {
 
   // Optional confidence score, not part of original export but added internally
   _confidence?: number;
+
+  // Claims the input does not support (stripped from the copy unless flag mode)
+  _unsupportedClaims?: UnsupportedClaim[];
 }
 
 function normalizeSynthesisOutput(out: any, canonicalTitle: string): SynthesisOutput {
   if (!out || typeof out !== "object") {
-    throw new Error("Gemini returned non-object JSON");
+    throw new Error("LLM returned non-object JSON");
   }
 
   const keyFeatures = Array.isArray(out.keyFeatures) ? out.keyFeatures.map((s: any) => String(s).trim()).filter(Boolean) : [];
@@ -186,20 +188,25 @@ function validateAgainstInput(input: SynthesisInput, output: SynthesisOutput): S
     output.canonicalTitle = `${input.manufacturer} ${input.mpn}`;
   }
 
-  const inputSpecKeys = new Set(Object.keys(input.specs));
-  let keyFeaturesChanged = false;
-
-  const filteredKeyFeatures = output.keyFeatures;
+  // Numbers, standards and certifications must come from the input
+  const verified = verifyClaims(input, output);
+  const keyFeaturesChanged = verified.output.keyFeatures.length !== output.keyFeatures.length;
 
   // Check if any spec value is missing or "Not specified"
   const anySpecMissing = Object.values(input.specs).some(val => !val || val.trim().toLowerCase() === "not specified");
 
   // Prepare disclaimers set to avoid duplicates
-  const disclaimersSet = new Set(output.disclaimers);
+  const disclaimersSet = new Set(verified.output.disclaimers);
 
   if (anySpecMissing || keyFeaturesChanged) {
     disclaimersSet.add("Some specifications were not provided and are listed as Not specified.");
   }
+  if (verified.unsupported.length > 0) {
+    console.warn(
+      `[synthesize] ${verified.unsupported.length} unsupported claim(s) for ${input.mpn}:`,
+      verified.unsupported.map(c => `${c.field}: ${c.text}`)
+    );
+  }
   disclaimersSet.add("Installation should follow local electrical codes and be performed by qualified personnel.");
 
   // Source-confidence guard: replaced logic to allow overview construction from specs when 4 or more specs exist
@@ -207,9 +214,9 @@ function validateAgainstInput(input: SynthesisInput, output: SynthesisOutput): S
   // Now no blanking is done here; overview is preserved or constructed in normalizeSynthesisOutput
 
   return {
-    ...output,
-    keyFeatures: filteredKeyFeatures,
+    ...verified.output,
     disclaimers: Array.from(disclaimersSet),
+    _unsupportedClaims: verified.unsupported
   };
 }
 
@@ -240,8 +247,19 @@ function computeContentConfidence(input: SynthesisInput, output: SynthesisOutput
   return confidence;
 }
 
+// Unparseable replies are not cached, so a retry asks the model again
+function isParseable(text: string): boolean {
+  try {
+    extractJson(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 export async function synthesizeProductContent(
-  input: SynthesisInput
+  input: SynthesisInput,
+  options?: { provider?: LlmProvider; cache?: StageCacheOptions }
 ): Promise<SynthesisOutput> {
 
   const descriptors = Array.isArray(input.verbatimDescriptors)
@@ -341,28 +359,49 @@ If limited specs exist but PRODUCT INPUT.notes are rich, prioritize explanatory
 If both specs and notes are sparse, produce minimal but accurate output — never fabricate.
 `;
 
-  const result = await client.models.generateContent({
-    model: GEMINI_MODEL,
-    contents: [
-      {
-        role: "user",
-        parts: [{ text: prompt }]
-      }
-    ]
-  });
+  const provider = options?.provider ?? getLlmProvider();
 
+  // The mock is deterministic already; only real backends are recorded and cached
+  // The prompt is part of the key, so template changes do not serve stale output
+  const inputHash = crypto.createHash("sha256").update(JSON.stringify(input)).digest("hex");
+  const promptHash = crypto.createHash("sha256").update(prompt).digest("hex");
   const text =
-    (result as any)?.text ??
-    (result as any)?.response?.text ??
-    (result as any)?.candidates?.[0]?.content?.parts?.map((p: any) => p?.text ?? "").join("") ??
-    "";
+    provider.name === "mock"
+      ? await provider.generate({ prompt, input })
+      : await withStageCache(
+          "synthesis",
+          {
+            label: `${input.mpn} ${provider.name} ${provider.model}`,
+            provider: provider.name,
+            model: provider.model,
+            input: inputHash,
+            prompt: promptHash
+          },
+          options?.cache,
+          () =>
+            withRecording(
+              "llm",
+              {
+                label: `${input.mpn} ${provider.name} ${provider.model}`,
+                provider: provider.name,
+                model: provider.model,
+                prompt
+              },
+              () => provider.generate({ prompt, input })
+            ),
+          isParseable
+        );
 
   try {
     const parsed = extractJson(text);
     let normalized = normalizeSynthesisOutput(parsed, input.canonicalTitle);
     normalized = validateAgainstInput(input, normalized);
 
-    const confidence = computeContentConfidence(input, normalized);
+    const unsupportedCount = normalized._unsupportedClaims?.length ?? 0;
+    const confidence = Math.max(
+      0,
+      computeContentConfidence(input, normalized) - UNSUPPORTED_CLAIM_PENALTY * unsupportedCount
+    );
 
     return {
       ...normalized,
@@ -372,7 +411,7 @@ If both specs and notes are sparse, produce minimal but accurate output — neve
     };
   } catch (err) {
     throw new Error(
-      "Failed to parse Gemini response as JSON. Raw output:\n" + text
+      `Failed to parse ${provider.name} response as JSON. Raw output:\n` + text
     );
   }
 }
\ No newline at end of file
@@ -0,0 +1,268 @@
+// services/variantRules.ts
+import fs from "fs";
+import path from "path";
+import { parseQuantity } from "./quantityParser.js";
+import { resolveAttribute } from "./attributeDictionary.js";
+import { bundledDataDir } from "./knowledgeBase.js";
+import type { NormalizedProduct } from "./normalizeProduct.js";
+
+/**
+ * Declarative manufacturer variant rules.
+ *
+ * Option suffixes and model-number codes ("M1-1120-3RA", "1756-IB16K",
+ * the "480-3" voltage code) are described in backend/data/variant-rules.json
+ * (override with VARIANT_RULES_FILE; KNOWLEDGE_BASE_DIR does not move it)
+ * instead of being special-cased in code. A rule can derive the base MPN that discovery and
+ * extraction search for, set or default specs, and add key features and
+ * description text.
+ *
+ * Rules run in file order, each against the base MPN left by the ones
+ * before it, so a suffix rule strips its suffix before a code rule decodes
+ * the rest. Everything a rule contributes is attributed to "variant:<id>".
+ */
+
+/* -----------------------------
+   Types
+----------------------------- */
+
+export interface VariantRule {
+  id: string;
+  // Compared ignoring case, spaces and punctuation ("Surge Pure" = "SurgePure")
+  manufacturers: string[];
+  description?: string;
+
+  // Either a literal suffix or a regex; named groups feed baseMpn and decode
+  suffix?: string;
+  pattern?: string;
+
+  // Replacement applied with the pattern ("$<base>"); suffix rules strip the suffix
+  baseMpn?: string;
+
+  // "override" replaces what sources said, "default" only fills missing specs
+  specMode?: "override" | "default";
+  specs?: Record<string, string>;
+  decode?: {
+    // Template over the pattern's named groups ("{voltage}-{wires}")
+    key: string;
+    values: Record<string, Record<string, string>>;
+  };
+  confidence?: number;
+
+  keyFeatures?: string[];
+  verbatim?: string;
+  descriptionAddition?: string;
+  // Template over {mpn}, {baseMpn} and {manufacturer}
+  displayTitle?: string;
+}
+
+export interface AppliedVariantRule {
+  id: string;
+  description: string | null;
+  source: string;
+  // Specs this rule sets or defaults, before dictionary resolution
+  specs: Record<string, string>;
+  rule: VariantRule;
+}
+
+export interface VariantResolution {
+  mpn: string;
+  manufacturer: string;
+  // MPN sources are searched and extracted for
+  baseMpn: string;
+  rules: AppliedVariantRule[];
+}
+
+// Used when a rule does not state its own confidence
+const DEFAULT_RULE_CONFIDENCE = 0.95;
+
+/* -----------------------------
+   Configuration
+----------------------------- */
+
+function rulesFile(): string {
+  return (
+    process.env.VARIANT_RULES_FILE ||
+    path.join(bundledDataDir(), "variant-rules.json")
+  );
+}
+
+const rulesCache = new Map<string, VariantRule[]>();
+
+export function loadVariantRules(file: string = rulesFile()): VariantRule[] {
+  const cached = rulesCache.get(file);
+  if (cached) return cached;
+
+  if (!fs.existsSync(file)) {
+    console.warn(`[variants] no rules file at ${file}`);
+    rulesCache.set(file, []);
+    return [];
+  }
+
+  let rules: VariantRule[];
+  try {
+    rules = JSON.parse(fs.readFileSync(file, "utf8")).rules ?? [];
+  } catch (err) {
+    throw new Error(`Failed to load variant rules from ${file}: ${String(err)}`);
+  }
+
+  for (const rule of rules) {
+    if (!rule.id || (!rule.suffix && !rule.pattern)) {
+      throw new Error(`Variant rule ${rule.id ?? "(unnamed)"} needs an id and a suffix or pattern`);
+    }
+  }
+
+  rulesCache.set(file, rules);
+  return rules;
+}
+
+/* -----------------------------
+   Resolution
+----------------------------- */
+
+export function resolveVariant(
+  mpn: string,
+  manufacturer: string,
+  rules: VariantRule[] = loadVariantRules()
+): VariantResolution {
+  const resolution: VariantResolution = { mpn, manufacturer, baseMpn: mpn, rules: [] };
+  const maker = compact(manufacturer);
+
+  for (const rule of rules) {
+    if (!rule.manufacturers.some(m => compact(m) === maker)) continue;
+
+    const matched = matchRule(rule, resolution.baseMpn);
+    if (!matched) continue;
+
+    const decoded = rule.decode
+      ? rule.decode.values[fillTemplate(rule.decode.key, matched.groups)] ?? {}
+      : {};
+
+    resolution.baseMpn = matched.baseMpn;
+    resolution.rules.push({
+      id: rule.id,
+      description: rule.description ?? null,
+      source: `variant:${rule.id}`,
+      specs: { ...decoded, ...(rule.specs ?? {}) },
+      rule
+    });
+  }
+
+  return resolution;
+}
+
+function matchRule(
+  rule: VariantRule,
+  mpn: string
+): { baseMpn: string; groups: Record<string, string> } | null {
+  if (rule.suffix) {
+    const suffix = rule.suffix.toUpperCase();
+    if (!mpn.endsWith(suffix) || mpn.length === suffix.length) return null;
+    return { baseMpn: mpn.slice(0, -suffix.length), groups: {} };
+  }
+
+  const regex = new RegExp(rule.pattern, "i");
+  const match = mpn.match(regex);
+  if (!match) return null;
+
+  return {
+    baseMpn: rule.baseMpn ? mpn.replace(regex, rule.baseMpn) : mpn,
+    groups: { ...(match.groups ?? {}) }
+  };
+}
+
+/* -----------------------------
+   Application
+----------------------------- */
+
+/**
+ * Writes rule specs and verbatim text into the normalized product, before
+ * synthesis, so the copy and its citations can use them.
+ */
+export function applyVariantSpecs(
+  normalized: NormalizedProduct,
+  resolution: VariantResolution
+): NormalizedProduct {
+  for (const applied of resolution.rules) {
+    const confidence = applied.rule.confidence ?? DEFAULT_RULE_CONFIDENCE;
+
+    for (const [key, value] of Object.entries(applied.specs)) {
+      const definition = resolveAttribute(key, normalized.category);
+      const attribute = definition?.name ?? key;
+
+      if (applied.rule.specMode === "default" && normalized.specs[attribute]) continue;
+
+      const quantity = parseQuantity(value, { key });
+      if (quantity.kind !== "text" && !quantity.unit && definition?.unit) {
+        quantity.unit = definition.unit;
+      }
+
+      normalized.specs[attribute] = {
+        value,
+        quantity,
+        sources: [applied.source],
+        confidence
+      };
+    }
+
+    if (applied.rule.verbatim) {
+      normalized.verbatimSections.push({
+        heading: "Variant",
+        text: applied.rule.verbatim,
+        source: applied.source,
+        confidence
+      });
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * Adds rule key features, description text and display title to the final
+ * content, and records which rules were applied under `variant`.
+ */
+export function applyVariantContent(final: any, resolution: VariantResolution): any {
+  for (const applied of resolution.rules) {
+    const { rule } = applied;
+
+    for (const feature of rule.keyFeatures ?? []) {
+      if (!(final.keyFeatures ?? []).includes(feature)) {
+        final.keyFeatures = [...(final.keyFeatures ?? []), feature];
+      }
+    }
+
+    if (rule.descriptionAddition) {
+      for (const field of ["overview", "shortDescription", "longDescription"]) {
+        if (final[field]) final[field] += ` ${rule.descriptionAddition}`;
+      }
+    }
+
+    if (rule.displayTitle) {
+      final.displayTitle = fillTemplate(rule.displayTitle, {
+        mpn: resolution.mpn,
+        baseMpn: resolution.baseMpn,
+        manufacturer: resolution.manufacturer
+      });
+    }
+  }
+
+  final.variant = {
+    mpn: resolution.mpn,
+    baseMpn: resolution.baseMpn,
+    rules: resolution.rules.map(({ rule, ...applied }) => applied)
+  };
+
+  return final;
+}
+
+/* -----------------------------
+   Helpers
+----------------------------- */
+
+function fillTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (whole, name) => values[name] ?? whole);
+}
+
+function compact(text: string): string {
+  return (text ?? "").toLowerCase().replace(/[^a-z0-9]/g, "");
+}
@@ -0,0 +1,61 @@
+// tests/attributeDictionary.scenarios.ts
+// Offline: spec key resolution, including generic labels that must stay unmapped.
+import { resolveAttribute, type ProductCategory } from "../services/attributeDictionary.js";
+
+const CASES: { key: string; category: ProductCategory | null; expect: string | null }[] = [
+  // Aliases, unit suffixes and parenthesized abbreviations
+  { key: "Total Surge Capacity Ka", category: "surge_protective_device", expect: "Total Surge Capacity" },
+  { key: "Max Continuous Operating Voltage (MCOV)", category: "surge_protective_device", expect: "MCOV" },
+  { key: "Shipping Weight Lbs", category: null, expect: "Weight" },
+  { key: "Manufacturer Part Number", category: null, expect: "MPN" },
+  { key: "System Voltage", category: "surge_protective_device", expect: "Nominal AC Line Voltage (VRMS)" },
+  { key: "Mcov V", category: "surge_protective_device", expect: "MCOV" },
+  { key: "Enclosure Rating", category: "surge_protective_device", expect: "Enclosure Rating" },
+
+  // Single letters are line or drawing labels, not units to strip
+  { key: "Height A", category: null, expect: null },
+  { key: "Warranty S", category: null, expect: null },
+  { key: "Weight G", category: null, expect: null },
+
+  // Generic labels mean different things on different sites
+  { key: "Model", category: null, expect: null },
+  { key: "Compatible With (Model)", category: null, expect: null },
+  { key: "Type", category: "surge_protective_device", expect: null },
+  { key: "Voltage", category: "surge_protective_device", expect: null },
+  { key: "Input", category: "power_supply", expect: null },
+  { key: "Power", category: "power_supply", expect: null },
+  { key: "Channels", category: "io_module", expect: null },
+  { key: "Size", category: null, expect: null },
+  { key: "Modes", category: "surge_protective_device", expect: null },
+  { key: "Enclosure", category: "surge_protective_device", expect: null },
+  { key: "Technology", category: "surge_protective_device", expect: null },
+  { key: "Architecture", category: "surge_protective_device", expect: null },
+  { key: "Indicators", category: "surge_protective_device", expect: null },
+  { key: "Diagnostics", category: "surge_protective_device", expect: null },
+  { key: "Module", category: "io_module", expect: null },
+  { key: "Inputs", category: "io_module", expect: null },
+  { key: "Outputs", category: "power_supply", expect: null },
+  { key: "Isolation", category: "io_module", expect: null },
+  { key: "Category", category: null, expect: null },
+  { key: "Family", category: null, expect: null },
+  { key: "Origin", category: null, expect: null },
+
+  // Without a category, category vocabulary does not apply
+  { key: "MCOV", category: null, expect: null }
+];
+
+let failures = 0;
+
+for (const test of CASES) {
+  const actual = resolveAttribute(test.key, test.category)?.name ?? null;
+
+  if (actual !== test.expect) {
+    failures++;
+    console.log("FAIL:", JSON.stringify(test.key), test.category ?? "", "→", actual, "expected", test.expect);
+  } else {
+    console.log("PASS:", JSON.stringify(test.key), "→", actual);
+  }
+}
+
+console.log(`\n${CASES.length - failures}/${CASES.length} attribute dictionary scenarios passed`);
+if (failures) process.exitCode = 1;
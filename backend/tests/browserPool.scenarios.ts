@@ -0,0 +1,40 @@
+// tests/browserPool.scenarios.ts
+// Offline: which requests the render pool aborts. No browser is launched.
+import { shouldBlock } from "../services/browserPool.js";
+
+const CASES: { resourceType: string; url: string; blocked: boolean }[] = [
+  { resourceType: "image", url: "https://www.surgepure.com/img/m1.png", blocked: true },
+  { resourceType: "font", url: "https://fonts.example.com/a.woff2", blocked: true },
+  { resourceType: "media", url: "https://www.surgepure.com/video.mp4", blocked: true },
+  { resourceType: "document", url: "https://www.surgepure.com/products/m1-1120-3", blocked: false },
+  { resourceType: "script", url: "https://google-analytics.com/analytics.js", blocked: true },
+  { resourceType: "script", url: "https://www.google-analytics.com/x", blocked: true },
+  { resourceType: "script", url: "https://region1.google-analytics.com/g/collect", blocked: true },
+  { resourceType: "script", url: "https://notgoogle-analytics.com/", blocked: false },
+  { resourceType: "script", url: "https://cdn.example.com/lib.js?ref=www.google-analytics.com", blocked: false },
+  { resourceType: "script", url: "https://cdn.example.com/www.hotjar.com/x.js", blocked: false },
+  { resourceType: "xhr", url: "https://px.ads.linkedin.com/px/collect", blocked: true },
+  { resourceType: "image", url: "https://linkedin.com/px/li.gif", blocked: true },
+  { resourceType: "xhr", url: "https://www.linkedin.com/px/collect", blocked: true },
+  { resourceType: "document", url: "https://www.linkedin.com/company/surgepure", blocked: false },
+  { resourceType: "document", url: "https://www.linkedin.com/pxfoo", blocked: false },
+  { resourceType: "script", url: "https://bat.bing.com/bat.js", blocked: true },
+  { resourceType: "script", url: "https://www.bing.com/bat/action", blocked: true },
+  { resourceType: "script", url: "not a url", blocked: false }
+];
+
+let failures = 0;
+
+for (const test of CASES) {
+  const blocked = shouldBlock(test.resourceType, test.url);
+
+  if (blocked === test.blocked) {
+    console.log("PASS:", test.resourceType, test.url, "→", blocked ? "blocked" : "allowed");
+  } else {
+    failures++;
+    console.log("FAIL:", test.resourceType, test.url, "→", blocked ? "blocked" : "allowed", `(expected ${test.blocked ? "blocked" : "allowed"})`);
+  }
+}
+
+console.log(`\n${CASES.length - failures}/${CASES.length} browser pool scenarios passed`);
+if (failures) process.exitCode = 1;
@@ -0,0 +1,102 @@
+// tests/citations.scenarios.ts
+// Offline: citing spec rows, key features and overview sentences to their sources.
+import { citeProductContent } from "../services/citations.js";
+
+const OEM = "https://www.surgepure.com/products/m1-1120-3";
+const DIST = "https://www.example-dist.com/products/m1-1120-3";
+const PDF = "https://www.surgepure.com/docs/M1-1120-3.pdf";
+
+const normalized: any = {
+  category: "surge_protective_device",
+  specs: {
+    // Winning source first, as normalizeProducts orders them
+    SCCR: { value: "200kAIC", sources: [PDF, DIST], confidence: 0.9 },
+    "Enclosure Rating": { value: "NEMA 4X", sources: [OEM], confidence: 0.8 },
+    Warranty: { value: "Yes", sources: [DIST], confidence: 0.5 }
+  },
+  verbatimSections: [
+    {
+      heading: "Overview",
+      // Content words: isolates, sensitive, downline, equipment, from, nearby, switching, motor, loads
+      text: "It isolates sensitive downline equipment from nearby switching motor loads.",
+      source: "datasheet:M1-1120-3#/overview/long"
+    }
+  ]
+};
+
+const cited = citeProductContent({
+  normalized,
+  specTable: [
+    { attribute: "SCCR", value: "200", unit: "kAIC" },
+    { attribute: "Enclosure Rating", value: "NEMA 4X", unit: "" },
+    { attribute: "Color", value: "Gray", unit: "" }
+  ] as any,
+  keyFeatures: [
+    "Short Circuit Current Rating: 200kAIC",
+    "Rated NEMA 4X for outdoor use",
+    "Ships the same day"
+  ],
+  overview: [
+    // 4 of 4 content words in the section: cited
+    "Isolates sensitive downline equipment.",
+    // 2 of 4 (switching, motor): exactly at the threshold, cited
+    "Switching motor surges handled.",
+    // 1 of 5 (equipment): below the threshold, not cited
+    "Equipment warranty covers replacement parts."
+  ].join(" ")
+});
+
+const idOf = (uri: string) => cited.sources.find(s => s.uri === uri)?.id;
+
+const CASES: { name: string; check: () => string | null }[] = [
+  {
+    name: "spec rows cite the spec's first (winning) source",
+    check: () => {
+      const [sccr, enclosure, color] = cited.specTable;
+      if (sccr.sourceId !== idOf(PDF)) return `SCCR cited ${sccr.sourceId}, PDF is ${idOf(PDF)}`;
+      if (enclosure.sourceId !== idOf(OEM)) return `Enclosure cited ${enclosure.sourceId}`;
+      if (idOf(DIST) !== undefined && cited.specTable.some(r => r.sourceId === idOf(DIST))) return "cited a losing source";
+      return color.sourceId === undefined ? null : `unknown attribute cited ${color.sourceId}`;
+    }
+  },
+  {
+    name: "source ids follow first use and map to their URIs",
+    check: () => {
+      if (cited.sources[0]?.uri !== PDF || cited.sources[0].id !== 1) return `first source ${JSON.stringify(cited.sources[0])}`;
+      return cited.citationMap[idOf(OEM)] === OEM ? null : "citation map mismatch";
+    }
+  },
+  {
+    name: "key features cite by label alias or restated value",
+    check: () => {
+      const [byAlias, byValue, unsupported] = cited.keyFeatures;
+      if (byAlias.sourceIds.join() !== String(idOf(PDF))) return `alias feature cited [${byAlias.sourceIds}]`;
+      if (byValue.sourceIds.join() !== String(idOf(OEM))) return `value feature cited [${byValue.sourceIds}]`;
+      return unsupported.sourceIds.length === 0 ? null : `unsupported feature cited [${unsupported.sourceIds}]`;
+    }
+  },
+  {
+    name: "overview sentences cite verbatim text at or above the 0.5 overlap threshold only",
+    check: () => {
+      const datasheet = idOf("datasheet:M1-1120-3#/overview/long");
+      const ids = cited.overview.map(s => s.sourceIds.join());
+      if (cited.overview.length !== 3) return `${cited.overview.length} sentences`;
+      return ids.join("|") === `${datasheet}|${datasheet}|` ? null : `cited ${ids.join(" | ")}`;
+    }
+  }
+];
+
+let failures = 0;
+
+for (const test of CASES) {
+  const problem = test.check();
+  if (problem) {
+    failures++;
+    console.log("FAIL:", test.name, "→", problem);
+  } else {
+    console.log("PASS:", test.name);
+  }
+}
+
+console.log(`\n${CASES.length - failures}/${CASES.length} citation scenarios passed`);
+if (failures) process.exitCode = 1;
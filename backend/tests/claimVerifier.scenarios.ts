@@ -0,0 +1,105 @@
+// tests/claimVerifier.scenarios.ts
+// Offline: checks the post-synthesis claim guard against a fixed input.
+import { verifyClaims, type VerifiedField } from "../services/claimVerifier.js";
+import type { SynthesisInput, SynthesisOutput } from "../services/synthesizeService.js";
+
+const INPUT: SynthesisInput = {
+  mpn: "M1-1480-3",
+  manufacturer: "SurgePure",
+  canonicalTitle: "SurgePure M1-1480-3",
+  specs: {
+    "Nominal AC Line Voltage (VRMS)": "480",
+    "Total Surge Capacity": "150 kA",
+    "Certifications": "UL 1449, 5th Edition; ANSI/IEEE C62.11, C62.41",
+    "Frequency": "50/60"
+  },
+  images: [],
+  datasheets: [],
+  verbatimDescriptors: [
+    "Safe 240,000 amps of multi-element surge capacity.",
+    "RoHS Compliant"
+  ]
+};
+
+const CASES: { text: string; supported: boolean }[] = [
+  { text: "Rated for 480V systems.", supported: true },
+  { text: "Offers 240 kA of surge capacity.", supported: true },
+  { text: "Handles 150,000 A surges.", supported: true },
+  { text: "Tested to UL 1449 and ANSI/IEEE C62.41.", supported: true },
+  { text: "It is RoHS compliant.", supported: true },
+  { text: "Operates at 50/60 Hz.", supported: true },
+  { text: "Rated for 600V systems.", supported: false },
+  { text: "Responds in 1 ns.", supported: false },
+  { text: "Carries CE marking.", supported: false },
+  { text: "Housed in a NEMA 4X enclosure.", supported: false },
+  { text: "Backed by a 10-year warranty.", supported: false },
+  // Same number, different quantity
+  { text: "Handles 480 A surges.", supported: false },
+  { text: "Protects 150 V circuits.", supported: false },
+  { text: "Offers 240 mA of surge capacity.", supported: false }
+];
+
+// An unsupported claim is removed from whichever field it was generated in
+const UNSUPPORTED = "Rated for 600V systems.";
+const FIELDS: (keyof SynthesisOutput & VerifiedField)[] = [
+  "overview",
+  "shortDescription",
+  "longDescription",
+  "keyFeatures",
+  "bulletHighlights",
+  "seoDescription",
+  "disclaimers"
+];
+
+let failures = 0;
+
+for (const test of CASES) {
+  const output: SynthesisOutput = {
+    canonicalTitle: INPUT.canonicalTitle,
+    keyFeatures: [],
+    overview: test.text,
+    shortDescription: "",
+    longDescription: "",
+    bulletHighlights: [],
+    seoDescription: "",
+    disclaimers: []
+  };
+
+  const { output: verified, unsupported } = verifyClaims(INPUT, output, "strip");
+  const supported = unsupported.length === 0 && verified.overview === test.text;
+
+  if (supported !== test.supported) {
+    failures++;
+    console.log("FAIL:", test.text, "→", unsupported.map(c => `${c.kind}: ${c.text}`));
+  } else {
+    console.log("PASS:", test.text, supported ? "(kept)" : "(stripped)");
+  }
+}
+
+for (const field of FIELDS) {
+  const output: SynthesisOutput = {
+    canonicalTitle: INPUT.canonicalTitle,
+    keyFeatures: [],
+    overview: "",
+    shortDescription: "",
+    longDescription: "",
+    bulletHighlights: [],
+    seoDescription: "",
+    disclaimers: [],
+  };
+  (output as any)[field] = Array.isArray(output[field]) ? [UNSUPPORTED] : UNSUPPORTED;
+
+  const { output: verified, unsupported } = verifyClaims(INPUT, output, "strip");
+  const remaining = verified[field] as string | string[];
+
+  if (remaining.length !== 0 || !unsupported.some(c => c.field === field)) {
+    failures++;
+    console.log("FAIL:", field, "→", JSON.stringify(remaining));
+  } else {
+    console.log("PASS:", field, "(stripped)");
+  }
+}
+
+const total = CASES.length + FIELDS.length;
+console.log(`\n${total - failures}/${total} claim scenarios passed`);
+if (failures) process.exitCode = 1;
@@ -0,0 +1,154 @@
+// tests/crawlPolicy.scenarios.ts
+// Offline: robots.txt parsing and matching, and the domain allow/deny lists.
+import {
+  checkCrawlPolicy,
+  checkRedirectTarget,
+  followRedirects,
+  isDomainPermitted,
+  MAX_REDIRECTS,
+  isPathAllowed,
+  parseRobotsTxt
+} from "../services/crawlPolicy.js";
+
+const ROBOTS = `
+# Shared rules
+User-agent: *
+Disallow: /cart
+Disallow: /search
+Crawl-delay: 2
+
+User-agent: Googlebot
+User-agent: PartlyBot
+Disallow: /products/*?sort=
+Disallow: /*.pdf$
+Allow: /products/
+Disallow: /
+Crawl-delay: 5
+`;
+
+const OTHERS_ONLY = `
+User-agent: *
+Disallow: /private/
+`;
+
+const robots = parseRobotsTxt(ROBOTS);
+const others = parseRobotsTxt(OTHERS_ONLY);
+
+const CASES: { name: string; check: () => Promise<boolean> | boolean }[] = [
+  { name: "own group replaces *", check: () => isPathAllowed(robots, "/cart") === false },
+  { name: "longest match wins: Allow /products/", check: () => isPathAllowed(robots, "/products/m1-1480-3") },
+  { name: "wildcard disallow", check: () => !isPathAllowed(robots, "/products/list?sort=price") },
+  { name: "$ anchors the end", check: () => !isPathAllowed(robots, "/docs/m1.pdf") },
+  { name: "$ does not match longer paths", check: () => !isPathAllowed(robots, "/docs/m1.pdf.html") && isPathAllowed(robots, "/products/m1.pdf.html") },
+  { name: "crawl-delay from own group", check: () => robots.crawlDelayMs === 5000 },
+  { name: "* group when no own group", check: () => !isPathAllowed(others, "/private/x") && isPathAllowed(others, "/products/x") },
+  { name: "empty robots allows everything", check: () => isPathAllowed(parseRobotsTxt(""), "/anything") },
+  {
+    name: "deny list covers subdomains",
+    check: () => {
+      process.env.CRAWL_DENIED_DOMAINS = "example.com";
+      const result = !isDomainPermitted("www.example.com") && isDomainPermitted("example.org");
+      delete process.env.CRAWL_DENIED_DOMAINS;
+      return result;
+    }
+  },
+  {
+    name: "allow list restricts crawling, deny wins",
+    check: () => {
+      process.env.CRAWL_ALLOWED_DOMAINS = "surgepure.com, digikey.com";
+      process.env.CRAWL_DENIED_DOMAINS = "digikey.com";
+      const result =
+        isDomainPermitted("surgepure.com") &&
+        !isDomainPermitted("digikey.com") &&
+        !isDomainPermitted("mouser.com");
+      delete process.env.CRAWL_ALLOWED_DOMAINS;
+      delete process.env.CRAWL_DENIED_DOMAINS;
+      return result;
+    }
+  },
+  {
+    name: "denied domain is refused without fetching robots.txt",
+    check: async () => {
+      process.env.CRAWL_DENIED_DOMAINS = "example.com";
+      const decision = await checkCrawlPolicy("https://shop.example.com/products/x");
+      delete process.env.CRAWL_DENIED_DOMAINS;
+      return !decision.allowed && decision.reason === "domain_denied";
+    }
+  },
+  {
+    name: "redirect to a denied domain is refused",
+    check: async () => {
+      process.env.CRAWL_DENIED_DOMAINS = "example.com";
+      const redirected = await checkRedirectTarget("https://shop.example.org/p/x", "https://www.example.com/p/x");
+      const unchanged = await checkRedirectTarget("https://www.example.com/p/x", "https://www.example.com/p/x");
+      delete process.env.CRAWL_DENIED_DOMAINS;
+      return !redirected.allowed && redirected.reason === "domain_denied" && unchanged.allowed;
+    }
+  },
+  {
+    name: "redirect hops are checked before they are requested",
+    check: async () => {
+      const requested: string[] = [];
+      const followed = await followRedirects(
+        "https://shop.example.org/p/x",
+        async hopUrl => {
+          requested.push(hopUrl);
+          if (hopUrl.endsWith("/p/x")) return { status: 301, location: "/p/y" };
+          return { status: 302, location: "https://tracker.example.com/p/z" };
+        },
+        async hopUrl =>
+          hopUrl.includes("example.com") ? { allowed: false, reason: "domain_denied" } : { allowed: true }
+      );
+      return (
+        followed.blocked === "domain_denied" &&
+        followed.finalUrl === "https://tracker.example.com/p/z" &&
+        followed.response === undefined &&
+        requested.join() === "https://shop.example.org/p/x,https://shop.example.org/p/y"
+      );
+    }
+  },
+  {
+    name: "redirect chains are capped",
+    check: async () => {
+      let requests = 0;
+      try {
+        await followRedirects(
+          "https://shop.example.org/0",
+          async hopUrl => {
+            requests++;
+            return { status: 302, location: `/${Number(new URL(hopUrl).pathname.slice(1)) + 1}` };
+          },
+          async () => ({ allowed: true })
+        );
+        return false;
+      } catch {
+        return requests === MAX_REDIRECTS + 1;
+      }
+    }
+  },
+  {
+    name: "a non-redirect response ends the chain",
+    check: async () => {
+      const followed = await followRedirects(
+        "https://shop.example.org/p/x",
+        async () => ({ status: 200, location: "https://elsewhere.example.org/" }),
+        async () => ({ allowed: false, reason: "domain_denied" })
+      );
+      return followed.finalUrl === "https://shop.example.org/p/x" && followed.response?.status === 200 && !followed.blocked;
+    }
+  }
+];
+
+let failures = 0;
+
+for (const test of CASES) {
+  if (await test.check()) {
+    console.log("PASS:", test.name);
+  } else {
+    failures++;
+    console.log("FAIL:", test.name);
+  }
+}
+
+console.log(`\n${CASES.length - failures}/${CASES.length} crawl policy scenarios passed`);
+if (failures) process.exitCode = 1;
@@ -0,0 +1,33 @@
+// tests/crawlProfiles.scenarios.ts
+// Offline: profile matching against the bundled crawl-profiles.json.
+import { findCrawlProfile, loadCrawlProfiles } from "../services/crawlProfiles.js";
+
+// Bundled config must not follow the knowledge base to another directory
+process.env.KNOWLEDGE_BASE_DIR = "/nonexistent/knowledge-base";
+
+const CASES: { url: string; profile: string | null }[] = [
+  { url: "https://sieportal.siemens.com/en-us/products-services/detail/6SL3210-5BB21-5UV1", profile: "siemens-sieportal" },
+  { url: "https://www.mc-mc.com/Product/allen-bradley-1756-ib16", profile: "mc-mc" },
+  { url: "https://shop.mc-mc.com/Product/1756-ib16", profile: "mc-mc" },
+  { url: "https://www.surgepure.com/products/m1-1480-3", profile: "default" },
+  { url: "https://notmc-mc.com/Product/x", profile: "default" },
+  { url: "not a url", profile: null }
+];
+
+console.log(`Loaded ${loadCrawlProfiles().length} crawl profile(s)`);
+
+let failures = 0;
+
+for (const test of CASES) {
+  const found = findCrawlProfile(test.url)?.id ?? null;
+
+  if (found === test.profile) {
+    console.log("PASS:", test.url, "→", found ?? "no profile");
+  } else {
+    failures++;
+    console.log("FAIL:", test.url, "→", found ?? "no profile", `(expected ${test.profile ?? "no profile"})`);
+  }
+}
+
+console.log(`\n${CASES.length - failures}/${CASES.length} crawl profile scenarios passed`);
+if (failures) process.exitCode = 1;
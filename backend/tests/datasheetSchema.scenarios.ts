@@ -0,0 +1,99 @@
+// tests/datasheetSchema.scenarios.ts
+// Offline: flattens the curated datasheet records in data/surgepure/products
+// and checks fields that used to be dropped (numbers, arrays, nested objects).
+import fs from "fs";
+import path from "path";
+import { flattenDatasheet } from "../services/datasheetSchema.js";
+
+const DIR = path.join(process.cwd(), "data", "surgepure", "products");
+
+const CASES: {
+  mpn: string;
+  specs: Record<string, [string, string]>;
+  verbatim: Record<string, string>;
+}[] = [
+  {
+    mpn: "M1-1120-3",
+    specs: {
+      "Total Surge Capacity kA": ["120", "/electrical_specs/total_surge_capacity_ka"],
+      "Protection Modes": ["L-N, L-L, N-G", "/electrical_specs/protection_modes"],
+      "Voltage Protection Rating L-N": ["900", "/electrical_specs/vpr_rating/l_n"],
+      "Clamping Voltage N-G": ["390", "/electrical_specs/clamping_voltage_v/n_g"],
+      "Height": ["4.5 in", "/mechanical_specs/enclosure/dimensions/height"],
+      "Shipping Weight Lbs": ["3.2", "/mechanical_specs/shipping_weight_lbs"],
+      "Product Category": ["Surge Protective Device", "/classification/category"],
+      "Status Indicators": [
+        "Lifetime green LED self-test protection status monitors for each phase",
+        "/status_indicators/description"
+      ]
+    },
+    verbatim: {
+      "/overview/short": "Short Description",
+      "/overview/long": "Overview",
+      "/key_features/0": "Key Feature"
+    }
+  },
+  {
+    mpn: "M5-1480-3",
+    specs: {
+      "Total Surge Capacity kA": ["1000", "/electrical_specs/performance_ratings/total_surge_capacity_ka"],
+      "Non-Degrading Design": ["Yes", "/electrical_specs/surge_protection_design/non_degrading_design"],
+      "Width": ["8.5", "/mechanical_specs/enclosure/physical_dimensions/width_in"],
+      "Optional Features": [
+        "Remote Aware (Auto-remote surge protection status alert capability)",
+        "/monitoring_and_options/optional_features"
+      ]
+    },
+    verbatim: {
+      "/overview/technical_positioning": "Technical Positioning",
+      "/safety_and_compliance/safety_claims/0": "Safety Claim"
+    }
+  },
+  {
+    mpn: "M6-1480-3",
+    specs: {
+      "Clamping Voltage L-L": ["1175", "/electrical_specs/clamping_voltages_raw/l_l"],
+      "Enclosure Rating": ["NEMA 4X", "/mechanical_specs/enclosure_raw/rating"],
+      "Certifications": [
+        "c-ETL-us; UL 1449, 5th Edition; CSA C22.2 No. 269; ANSI/IEEE C62.11; ANSI/IEEE C62.41; ANSI/IEEE C62.45; RoHS Compliant",
+        "/safety_and_compliance/certifications_raw"
+      ]
+    },
+    verbatim: {
+      "/overview/system_description_raw": "System Description"
+    }
+  }
+];
+
+let failures = 0;
+
+for (const test of CASES) {
+  const raw = JSON.parse(fs.readFileSync(path.join(DIR, `${test.mpn}.json`), "utf8"));
+  const flattened = flattenDatasheet(raw);
+  const problems: string[] = [];
+
+  for (const [label, [value, pointer]] of Object.entries(test.specs)) {
+    if (flattened.specs[label] !== value) {
+      problems.push(`${label} = ${flattened.specs[label]}, expected ${value}`);
+    } else if (flattened.specPaths[label] !== pointer) {
+      problems.push(`${label} read from ${flattened.specPaths[label]}, expected ${pointer}`);
+    }
+  }
+
+  for (const [pointer, heading] of Object.entries(test.verbatim)) {
+    const section = flattened.verbatimSections.find(v => v.path === pointer);
+    if (section?.heading !== heading) {
+      problems.push(`${pointer} heading ${section?.heading}, expected ${heading}`);
+    }
+  }
+
+  if (problems.length) {
+    failures++;
+    console.log("FAIL:", test.mpn, "→", problems.join("; "));
+  } else {
+    console.log("PASS:", test.mpn, `(${Object.keys(flattened.specs).length} specs, ${flattened.verbatimSections.length} sections)`);
+  }
+}
+
+console.log(`\n${CASES.length - failures}/${CASES.length} datasheet schema scenarios passed`);
+if (failures) process.exitCode = 1;
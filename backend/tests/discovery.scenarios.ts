@@ -1,3 +1,7 @@
+// tests/discovery.scenarios.ts
+// Runs against Serper by default; set SEARCH_PROVIDER=fixture to run offline
+// from tests/fixtures/search (queries without a fixture return no results).
+import "dotenv/config";
 import { discoverProductSources } from "../services/discoveryService.js";
 
 const TEST_SKUS = [
@@ -0,0 +1,111 @@
+// tests/enrichStream.scenarios.ts
+// Offline: SSE event sequence of POST /enrich/stream and GET /enrich/jobs/:id/events,
+// against a local server replaying tests/fixtures/canned.
+import express from "express";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import fetch from "node-fetch";
+import type { AddressInfo } from "net";
+
+process.env.PARTLY_FIXTURE_MODE = "replay";
+process.env.PARTLY_FIXTURE_DIR = path.join(process.cwd(), "tests", "fixtures", "canned");
+process.env.RESULT_STORE_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "stream-store-"));
+
+const { enrichRouter } = await import("../api/enrich.js");
+
+const app = express();
+app.use(express.json());
+app.use("/enrich", enrichRouter);
+
+const server = app.listen(0);
+await new Promise(resolve => server.once("listening", resolve));
+const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/enrich`;
+
+interface SseEvent {
+  event: string;
+  data: any;
+}
+
+// Reads the whole stream; the server ends it after "done"
+async function readEvents(url: string, init?: any): Promise<{ status: number; type: string | null; events: SseEvent[] }> {
+  const res = await fetch(url, init);
+  const text = await res.text();
+  const events = text
+    .split("\n\n")
+    .filter(block => block.startsWith("event: "))
+    .map(block => {
+      const [eventLine, dataLine] = block.split("\n");
+      return { event: eventLine.slice("event: ".length), data: JSON.parse(dataLine.slice("data: ".length)) };
+    });
+  return { status: res.status, type: res.headers.get("content-type"), events };
+}
+
+const stream = await readEvents(`${base}/stream`, {
+  method: "POST",
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify({ mpns: ["M1-1120-3"], manufacturer: "Surge Pure" })
+});
+
+const jobId = stream.events[0]?.data?.jobId;
+const replay = await readEvents(`${base}/jobs/${jobId}/events`);
+const unknown = await fetch(`${base}/jobs/no-such-job/events`);
+
+const CASES: { name: string; check: () => string | null }[] = [
+  {
+    name: "stream is text/event-stream",
+    check: () =>
+      stream.status === 200 && stream.type?.startsWith("text/event-stream")
+        ? null
+        : `status ${stream.status}, type ${stream.type}`
+  },
+  {
+    name: "snapshot, stages in pipeline order, item, done",
+    check: () => {
+      const names = stream.events.map(e => (e.event === "stage" ? `stage:${e.data.stage}` : e.event));
+      const expected = ["job", "stage:discovery", "stage:crawl", "stage:extraction", "stage:synthesis", "stage:final", "item", "done"];
+      return names.join() === expected.join() ? null : `sequence ${names.join(" → ")}`;
+    }
+  },
+  {
+    name: "item event carries the final result and running stats",
+    check: () => {
+      const item = stream.events.find(e => e.event === "item")?.data;
+      if (item?.mpn !== "M1-1120-3" || item.status !== "completed") return `item ${JSON.stringify(item)?.slice(0, 120)}`;
+      if (!item.final) return "no final";
+      return item.stats?.completed === 1 ? null : `stats ${JSON.stringify(item.stats)}`;
+    }
+  },
+  {
+    name: "reconnecting to a finished job gets the snapshot and done, then the stream ends",
+    check: () => {
+      const names = replay.events.map(e => e.event);
+      if (names.join() !== "job,done") return `sequence ${names.join(" → ")}`;
+      const snapshot = replay.events[0].data;
+      if (snapshot.status !== "completed") return `snapshot status ${snapshot.status}`;
+      return snapshot.items[0]?.final ? null : "snapshot item has no final";
+    }
+  },
+  {
+    name: "unknown job is a 404",
+    check: () => (unknown.status === 404 ? null : `status ${unknown.status}`)
+  }
+];
+
+let failures = 0;
+
+for (const test of CASES) {
+  const problem = test.check();
+  if (problem) {
+    failures++;
+    console.log("FAIL:", test.name, "→", problem);
+  } else {
+    console.log("PASS:", test.name);
+  }
+}
+
+server.close();
+fs.rmSync(process.env.RESULT_STORE_DIR, { recursive: true, force: true });
+
+console.log(`\n${CASES.length - failures}/${CASES.length} enrich stream scenarios passed`);
+if (failures) process.exitCode = 1;
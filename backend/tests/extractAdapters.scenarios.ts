@@ -0,0 +1,148 @@
+// tests/extractAdapters.scenarios.ts
+// Offline: platform and site adapters on small hand-written pages.
+import { extractFromHtml } from "../services/extractService.js";
+
+const page = (head: string, body: string) =>
+  `<html><head><title>M1-1480-3 Surge Protector</title>${head}</head><body><h1>SurgePure M1-1480-3</h1>${body}</body></html>`;
+
+const CASES: {
+  name: string;
+  url: string;
+  html: string;
+  adapterData?: Record<string, any>;
+  adapters: string[];
+  specs?: Record<string, string>;
+  ok?: boolean;
+}[] = [
+  {
+    name: "Shopify product JSON endpoint",
+    url: "https://shop.example.com/products/m1-1480-3",
+    html: page(`<script src="https://cdn.shopify.com/s/files/theme.js"></script>`, ""),
+    adapterData: {
+      shopify: {
+        product: {
+          vendor: "SurgePure",
+          product_type: "Surge Protective Device",
+          body_html: "<p>Whole-facility surge protection.</p>",
+          variants: [{ sku: "M1-1480-3", weight: 12.5, weight_unit: "lb" }],
+          images: [{ src: "//cdn.shopify.com/m1.jpg" }]
+        }
+      }
+    },
+    adapters: ["shopify"],
+    specs: { Brand: "SurgePure", SKU: "M1-1480-3", Weight: "12.5 lb" }
+  },
+  {
+    name: "Shopify embedded product JSON",
+    url: "https://shop.example.com/products/m1-1480-3",
+    html: page(
+      `<script>window.Shopify = {};</script>`,
+      `<script type="application/json" data-product-json>{"vendor":"SurgePure","variants":[{"sku":"A"},{"sku":"B"}]}</script>`
+    ),
+    adapters: ["shopify"],
+    specs: { Brand: "SurgePure" }
+  },
+  {
+    name: "BigCommerce BCData without eval",
+    url: "https://store.example.com/m1-1480-3/",
+    html: page(
+      "",
+      `<script>var BCData = {"csrf_token":"x","product_attributes":{"sku":"M1-1480-3","weight":{"formatted":"12.50 LBS","value":12.5}}};</script>`
+    ),
+    adapters: ["bigcommerce"],
+    specs: { SKU: "M1-1480-3", Weight: "12.50 LBS" }
+  },
+  {
+    name: "BigCommerce object literal is not evaluated",
+    url: "https://store.example.com/m1-1480-3/",
+    html: page("", `<script>var BCData = {product_attributes: {sku: (function(){ throw 1; })()}};</script>`),
+    adapters: ["bigcommerce"],
+    specs: {}
+  },
+  {
+    name: "Magento attribute table",
+    url: "https://magento.example.com/m1-1480-3.html",
+    html: page(
+      `<script type="text/x-magento-init">{}</script>`,
+      `<table id="product-attribute-specs-table"><tr><th>Voltage</th><td>480 V</td></tr></table>
+       <div class="product attribute sku"><div class="value">M1-1480-3</div></div>`
+    ),
+    adapters: ["magento"],
+    specs: { Voltage: "480 V", SKU: "M1-1480-3" }
+  },
+  {
+    name: "Wix info sections",
+    url: "https://www.example-wix.com/product-page/m1-1480-3",
+    html: page(
+      "",
+      `<img src="https://static.wixstatic.com/media/m1.jpg">
+       <script type="application/json" id="wix-warmup-data">${JSON.stringify({
+         appsWarmupData: {
+           stores: {
+             product: {
+               sku: "M1-1480-3",
+               additionalInfoSections: [
+                 { title: "Specifications", description: "<table><tr><td>SCCR</td><td>200 kA</td></tr></table>" },
+                 { title: "Warranty", description: "<p>10 years</p>" }
+               ]
+             }
+           }
+         }
+       })}</script>`
+    ),
+    adapters: ["wix"],
+    specs: { SKU: "M1-1480-3", SCCR: "200 kA", Warranty: "10 years" }
+  },
+  {
+    name: "known distributor without the MPN in the page",
+    url: "https://www.mc-mc.com/Item/abc",
+    html: page("", "<p>Item</p>").replace(/M1-1480-3/g, ""),
+    adapters: ["mc-mc"]
+  },
+  {
+    name: "unknown site without the MPN is not a product page",
+    url: "https://www.mrolike.example.com/item/abc",
+    html: page("", "<p>Item</p>").replace(/M1-1480-3/g, ""),
+    adapters: [],
+    ok: false
+  }
+];
+
+let failures = 0;
+
+for (const test of CASES) {
+  const result = extractFromHtml({
+    html: test.html,
+    sourceUrl: test.url,
+    mpn: "M1-1480-3",
+    manufacturer: "SurgePure",
+    adapterData: test.adapterData
+  });
+
+  const problems: string[] = [];
+
+  if (result.adapters.join() !== test.adapters.join()) {
+    problems.push(`adapters ${result.adapters.join() || "none"}, expected ${test.adapters.join() || "none"}`);
+  }
+
+  for (const [key, value] of Object.entries(test.specs ?? {})) {
+    if (result.specs[key] !== value) problems.push(`${key}=${result.specs[key] ?? "missing"}, expected ${value}`);
+  }
+
+  if (test.ok === false && result.reason !== "non_product") {
+    problems.push(`reason ${result.reason ?? "none"}, expected non_product`);
+  }
+  if (test.ok === undefined && result.reason === "non_product") {
+    problems.push("rejected as non_product");
+  }
+
+  if (problems.length) {
+    failures++;
+    console.log("FAIL:", test.name, "→", problems.join("; "));
+  } else {
+    console.log("PASS:", test.name);
+  }
+}
+
+console.log(`\n${CASES.length - failures}/${CASES.length} extract adapter scenarios passed`);
+if (failures) process.exitCode = 1;
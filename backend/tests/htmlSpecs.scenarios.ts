@@ -0,0 +1,145 @@
+// tests/htmlSpecs.scenarios.ts
+// Offline: spec layouts in plain HTML, and which table each spec came from.
+import * as cheerio from "cheerio";
+import { extractHtmlSpecs } from "../services/htmlSpecs.js";
+
+const MPN = "M1-1480-3";
+
+const CASES: {
+  name: string;
+  html: string;
+  specs: Record<string, string>;
+  absent?: string[];
+  sources?: Record<string, string>;
+  evidence?: string;
+}[] = [
+  {
+    name: "two-row key/value table",
+    html: `<h2>Ratings</h2><table><tr><td>SCCR:</td><td>200 kA</td></tr><tr><td>Voltage</td><td>480 V</td></tr></table>`,
+    specs: { SCCR: "200 kA", Voltage: "480 V" },
+    sources: { SCCR: "table 1 › Ratings" },
+    evidence: "table"
+  },
+  {
+    name: "multi-model table reads the MPN's column",
+    html: `<table>
+      <caption>Model comparison</caption>
+      <tr><th>Specification</th><th>M1-1240-3</th><th>M1-1480-3</th></tr>
+      <tr><td colspan="3">Electrical</td></tr>
+      <tr><td>System Voltage</td><td>240 V</td><td>480 V</td></tr>
+      <tr><td>Phase</td><td colspan="2">3 Phase</td></tr>
+    </table>`,
+    specs: { "System Voltage": "480 V", Phase: "3 Phase" },
+    absent: ["M1-1240-3", "Specification"],
+    sources: { "System Voltage": "table 1 › Model comparison › Electrical" }
+  },
+  {
+    name: "one row per model reads the MPN's row",
+    html: `<table>
+      <thead><tr><th>Model</th><th>Voltage</th><th>SCCR</th></tr></thead>
+      <tr><td>M1-1240-3</td><td>240 V</td><td>100 kA</td></tr>
+      <tr><td>M1-1480-3 (480V)</td><td>480 V</td><td>200 kA</td></tr>
+    </table>`,
+    specs: { Voltage: "480 V", SCCR: "200 kA" }
+  },
+  {
+    name: "other models' table is skipped",
+    html: `<table>
+      <tr><th>Specification</th><th>M1-1240-3</th><th>M1-1208-3</th></tr>
+      <tr><td>System Voltage</td><td>240 V</td><td>208 V</td></tr>
+    </table>`,
+    specs: {},
+    absent: ["System Voltage"]
+  },
+  {
+    name: "plain <td> header row still picks the MPN's column",
+    html: `<table>
+      <tr><td>Spec</td><td>M1-1240-3</td><td>M1-1480-3</td></tr>
+      <tr><td>Voltage</td><td>240V</td><td>480V</td></tr>
+      <tr><td>SCCR</td><td>200kA</td><td>100kA</td></tr>
+    </table>`,
+    specs: { Voltage: "480V", SCCR: "100kA" },
+    absent: ["Spec"]
+  },
+  {
+    name: "plain <td> header naming other models is skipped",
+    html: `<table>
+      <tr><td>Spec</td><td>M1-1240-3</td><td>M1-1208-3</td></tr>
+      <tr><td>Voltage</td><td>240V</td><td>208V</td></tr>
+    </table>`,
+    specs: {},
+    absent: ["Voltage", "Spec"]
+  },
+  {
+    name: "Parameter / Value / Unit table keeps the value column",
+    html: `<table>
+      <tr><th>Parameter</th><th>Value</th><th>Unit</th></tr>
+      <tr><td>Surge Current</td><td>200</td><td>kA</td></tr>
+    </table>`,
+    specs: { "Surge Current": "200" }
+  },
+  {
+    name: "div grid with label and value classes",
+    html: `<h3>Details</h3><div class="spec-grid">
+      <div class="spec-label">Enclosure</div><div class="spec-value">NEMA 4X</div>
+      <div class="spec-label">Warranty</div><div class="spec-value">10 years</div>
+    </div>`,
+    specs: { Enclosure: "NEMA 4X", Warranty: "10 years" },
+    sources: { Enclosure: "grid › Details" },
+    evidence: "grid"
+  },
+  {
+    name: "list items written as Label: value",
+    html: `<ul><li>Modes of Protection: 10</li><li>Free shipping on orders</li><li>UL Listed: <b>Yes</b></li></ul>`,
+    specs: { "Modes of Protection": "10", "UL Listed": "Yes" },
+    absent: ["Free shipping on orders"],
+    evidence: "list"
+  },
+  {
+    name: "nav, header and footer list items are not specs",
+    html: `<header><ul><li>Account: Sign in</li></ul></header>
+      <nav><ul><li>Shop: All products</li></ul></nav>
+      <ul><li>Voltage: 480 V</li></ul>
+      <footer><ul><li>Call us: 800-555-0100</li><li>Email: sales@example.com</li><li>Hours: 8-5 EST</li></ul></footer>`,
+    specs: { Voltage: "480 V" },
+    absent: ["Account", "Shop", "Call us", "Email", "Hours"]
+  },
+  {
+    name: "tables win over list items",
+    html: `<ul><li>Voltage: 120 V</li></ul><table><tr><td>Voltage</td><td>480 V</td></tr></table>`,
+    specs: { Voltage: "480 V" },
+    evidence: "table"
+  }
+];
+
+let failures = 0;
+
+for (const test of CASES) {
+  const result = extractHtmlSpecs(cheerio.load(`<html><body>${test.html}</body></html>`), MPN);
+  const problems: string[] = [];
+
+  for (const [key, value] of Object.entries(test.specs)) {
+    if (result.specs[key] !== value) problems.push(`${key}=${result.specs[key] ?? "missing"}, expected ${value}`);
+    if (test.evidence && result.evidence[key] !== test.evidence) {
+      problems.push(`${key} evidence ${result.evidence[key]}, expected ${test.evidence}`);
+    }
+  }
+
+  for (const key of test.absent ?? []) {
+    if (key in result.specs) problems.push(`unexpected ${key}=${result.specs[key]}`);
+  }
+
+  for (const [key, source] of Object.entries(test.sources ?? {})) {
+    if (result.sources[key] !== source) problems.push(`${key} source "${result.sources[key]}", expected "${source}"`);
+  }
+
+  if (problems.length) {
+    failures++;
+    console.log("FAIL:", test.name, "→", problems.join("; "));
+  } else {
+    console.log("PASS:", test.name);
+  }
+}
+
+console.log(`\n${CASES.length - failures}/${CASES.length} HTML spec scenarios passed`);
+if (failures) process.exitCode = 1;
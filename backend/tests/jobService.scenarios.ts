@@ -0,0 +1,112 @@
+// tests/jobService.scenarios.ts
+// Offline: job and item status transitions, replaying tests/fixtures/canned.
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+process.env.PARTLY_FIXTURE_MODE = "replay";
+process.env.PARTLY_FIXTURE_DIR = path.join(process.cwd(), "tests", "fixtures", "canned");
+process.env.RESULT_STORE_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "job-store-"));
+
+const { createEnrichmentJob, getJob, subscribeToJob } = await import("../services/jobService.js");
+type EnrichmentJobEvent = import("../services/jobService.js").EnrichmentJobEvent;
+
+// "SEARCH-ERROR-1" has a failing search, so its pipeline run throws
+const MPNS = ["M1-1120-3", "M1-1120-3RA", "SEARCH-ERROR-1"];
+
+const job = createEnrichmentJob({ mpns: MPNS, manufacturer: "Surge Pure", concurrency: 2 });
+
+const initial = {
+  status: job.status,
+  stats: { ...job.stats },
+  items: job.items.map(item => item.status)
+};
+
+// Item statuses as seen by each event, in arrival order
+const events: EnrichmentJobEvent[] = [];
+const progress: { completed: number; errors: number }[] = [];
+let peakProcessing = 0;
+
+await new Promise<void>(resolve => {
+  const unsubscribe = subscribeToJob(job.id, event => {
+    events.push(event);
+    const current = getJob(job.id);
+    peakProcessing = Math.max(peakProcessing, current.items.filter(i => i.status === "processing").length);
+
+    if (event.type === "item") progress.push({ completed: event.stats.completed, errors: event.stats.errors });
+    if (event.type === "done") {
+      unsubscribe();
+      resolve();
+    }
+  });
+});
+
+const finished = getJob(job.id);
+
+const CASES: { name: string; check: () => string | null }[] = [
+  {
+    name: "job starts running at once with every item pending or processing",
+    check: () => {
+      if (initial.status !== "running") return `status ${initial.status}`;
+      if (initial.stats.total !== 3 || initial.stats.completed !== 0) return `stats ${JSON.stringify(initial.stats)}`;
+      return initial.items.every(s => s === "pending" || s === "processing") ? null : `items ${initial.items}`;
+    }
+  },
+  {
+    name: "no more items processing than the requested concurrency",
+    check: () => (peakProcessing <= 2 ? null : `${peakProcessing} items processing at once`)
+  },
+  {
+    name: "progress counts up once per finished item",
+    check: () => {
+      const totals = progress.map(p => p.completed + p.errors);
+      return totals.join() === "1,2,3" ? null : `totals ${totals.join()}`;
+    }
+  },
+  {
+    name: "finished job: completed, with per-item results and errors",
+    check: () => {
+      if (finished?.status !== "completed") return `status ${finished?.status}`;
+      if (finished.stats.completed !== 2 || finished.stats.errors !== 1) return `stats ${JSON.stringify(finished.stats)}`;
+
+      const byMpn = Object.fromEntries(finished.items.map(item => [item.mpn, item]));
+      if (byMpn["M1-1120-3"].status !== "completed" || !byMpn["M1-1120-3"].result?.final) return "M1-1120-3 has no result";
+      if (byMpn["SEARCH-ERROR-1"].status !== "error" || !byMpn["SEARCH-ERROR-1"].error) return "SEARCH-ERROR-1 not an error";
+      return finished.items.every(item => item.startedAt && item.finishedAt) ? null : "missing timestamps";
+    }
+  },
+  {
+    name: "stage events arrive before each item's item event, done comes last",
+    check: () => {
+      if (events[events.length - 1]?.type !== "done") return "done is not last";
+      for (const mpn of ["M1-1120-3", "M1-1120-3RA"]) {
+        const stages = events.flatMap((e, i) => (e.type === "stage" && e.mpn === mpn ? [i] : []));
+        const item = events.findIndex(e => e.type === "item" && e.item.mpn === mpn);
+        if (stages.length === 0) return `no stage events for ${mpn}`;
+        if (item < stages[stages.length - 1]) return `${mpn} item event before its last stage`;
+      }
+      return null;
+    }
+  },
+  {
+    name: "unknown job id",
+    check: () => (getJob("no-such-job") === null ? null : "expected null")
+  }
+];
+
+let failures = 0;
+
+for (const test of CASES) {
+  const problem = test.check();
+  if (problem) {
+    failures++;
+    console.log("FAIL:", test.name, "→", problem);
+  } else {
+    console.log("PASS:", test.name);
+  }
+}
+
+fs.rmSync(process.env.RESULT_STORE_DIR, { recursive: true, force: true });
+
+console.log(`\n${CASES.length - failures}/${CASES.length} job scenarios passed`);
+if (failures) process.exitCode = 1;
@@ -0,0 +1,40 @@
+// tests/knowledgeBase.scenarios.ts
+// Offline: looks up records in the bundled knowledge base (backend/data).
+// Run from any directory; the default root does not depend on the cwd.
+import { findFamilyRecords, findProductRecord, knowledgeBaseRoot } from "../services/knowledgeBase.js";
+
+const CASES: { manufacturer: string; mpn: string; found: string | null; family?: number }[] = [
+  { manufacturer: "SurgePure", mpn: "M1-1120-3", found: "M1-1120-3", family: 6 },
+  { manufacturer: "Surge Pure", mpn: "m1-1120-3", found: "M1-1120-3" },
+  { manufacturer: "surgepure", mpn: "M5–1480–3", found: "M5-1480-3", family: 8 },
+  { manufacturer: "Allen-Bradley", mpn: "M1-1120-3", found: null },
+  { manufacturer: "SurgePure", mpn: "M9-9999-9", found: null }
+];
+
+console.log("Knowledge base root:", knowledgeBaseRoot());
+
+let failures = 0;
+
+for (const test of CASES) {
+  const record = findProductRecord(test.manufacturer, test.mpn);
+  const problems: string[] = [];
+
+  if ((record?.mpn ?? null) !== test.found) {
+    problems.push(`found ${record?.mpn ?? "nothing"}, expected ${test.found ?? "nothing"}`);
+  }
+
+  if (test.family !== undefined) {
+    const members = findFamilyRecords(test.manufacturer, test.mpn)?.members.length ?? 0;
+    if (members !== test.family) problems.push(`family of ${members}, expected ${test.family}`);
+  }
+
+  if (problems.length) {
+    failures++;
+    console.log("FAIL:", test.manufacturer, test.mpn, "→", problems.join("; "));
+  } else {
+    console.log("PASS:", test.manufacturer, test.mpn, "→", record?.mpn ?? "no record");
+  }
+}
+
+console.log(`\n${CASES.length - failures}/${CASES.length} knowledge base scenarios passed`);
+if (failures) process.exitCode = 1;
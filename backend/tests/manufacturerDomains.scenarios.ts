@@ -0,0 +1,57 @@
+// tests/manufacturerDomains.scenarios.ts
+// Offline: OEM vs distributor classification against the bundled
+// manufacturer-domains.json and knowledge base.
+import { classifySourceType } from "../services/discoveryService.js";
+import { registrableDomain } from "../services/manufacturerDomains.js";
+
+const CASES: { url: string; manufacturer: string; type: "oem" | "distributor" }[] = [
+  // Configured: the domain is not named after the brand
+  { url: "https://www.rockwellautomation.com/en-us/products/details.1756-ib16.html", manufacturer: "Allen-Bradley", type: "oem" },
+  { url: "https://literature.rockwellautomation.com/idc/groups/literature/documents/td/1756-td002_-en-e.pdf", manufacturer: "Allen Bradley", type: "oem" },
+  { url: "https://www.automation-parts.example.com/product/allen-bradley-1756-ib16", manufacturer: "Allen-Bradley", type: "distributor" },
+  { url: "https://www.mc-mc.com/Product/allen-bradley-1756-ib16", manufacturer: "Allen-Bradley", type: "distributor" },
+  { url: "https://sieportal.siemens.com/en-us/products-services/detail/6SL3210-5BB21-5UV1", manufacturer: "Siemens", type: "oem" },
+  // From the knowledge base's manufacturer.website
+  { url: "https://www.surgepure.com/products/m1-1120-3", manufacturer: "Surge Pure", type: "oem" },
+  { url: "https://surgepure-parts.com/m1-1120-3", manufacturer: "SurgePure", type: "distributor" },
+  { url: "https://www.electrical-supply.example.com/products/surgepure-m1-1120-3", manufacturer: "SurgePure", type: "distributor" },
+  // Unlisted brand: its name as the registrable domain
+  { url: "https://shop.acmecontrols.co.uk/p/x", manufacturer: "Acme Controls", type: "oem" },
+  { url: "https://www.acmecontrols-direct.com/p/x", manufacturer: "Acme Controls", type: "distributor" },
+  { url: "not a url", manufacturer: "Acme Controls", type: "distributor" }
+];
+
+const DOMAINS: [string, string][] = [
+  ["www.shop.surgepure.com", "surgepure.com"],
+  ["www.rs-online.co.uk", "rs-online.co.uk"],
+  ["surgepure.com", "surgepure.com"],
+  ["www.example.io", "example.io"]
+];
+
+let failures = 0;
+const total = CASES.length + DOMAINS.length;
+
+for (const test of CASES) {
+  const type = classifySourceType(test.url, test.manufacturer);
+
+  if (type === test.type) {
+    console.log("PASS:", test.manufacturer, test.url, "→", type);
+  } else {
+    failures++;
+    console.log("FAIL:", test.manufacturer, test.url, "→", type, `(expected ${test.type})`);
+  }
+}
+
+for (const [host, expected] of DOMAINS) {
+  const domain = registrableDomain(host);
+
+  if (domain === expected) {
+    console.log("PASS:", host, "→", domain);
+  } else {
+    failures++;
+    console.log("FAIL:", host, "→", domain, `(expected ${expected})`);
+  }
+}
+
+console.log(`\n${total - failures}/${total} manufacturer domain scenarios passed`);
+if (failures) process.exitCode = 1;
@@ -0,0 +1,103 @@
+// tests/normalizeProduct.scenarios.ts
+// Offline: spec merging across sources and conflict reporting.
+import { normalizeProducts, type ExtractedProduct } from "../services/normalizeProduct.js";
+import { parseQuantity, quantitiesEquivalent } from "../services/quantityParser.js";
+
+const source = (sourceUrl: string, specs: Record<string, string>, confidence = 0.6): ExtractedProduct => ({
+  mpn: "X-100",
+  manufacturer: "Example",
+  sourceUrl,
+  sourceType: "distributor",
+  confidence,
+  specs
+});
+
+const conflictsFor = (products: ExtractedProduct[], attribute: string) =>
+  normalizeProducts(products).conflicts.filter(c => c.attribute === attribute);
+
+const CASES: { name: string; check: () => string | null }[] = [
+  {
+    name: "one source under two aliases is not a conflict",
+    check: () => {
+      const conflicts = conflictsFor(
+        [source("https://a.example.com/x-100", { Weight: "5 lb", "Shipping Weight": "6 lb" })],
+        "Weight"
+      );
+      return conflicts.length === 0 ? null : `got ${JSON.stringify(conflicts)}`;
+    }
+  },
+  {
+    name: "different values from different sources conflict",
+    check: () => {
+      const [conflict] = conflictsFor(
+        [
+          source("https://a.example.com/x-100", { Weight: "5 lb" }, 0.9),
+          source("https://b.example.com/x-100", { "Shipping Weight": "6 lb" })
+        ],
+        "Weight"
+      );
+      if (!conflict) return "no conflict";
+      if (conflict.equivalent) return "marked equivalent";
+      return conflict.chosenValue === "5 lb" ? null : `chose ${conflict.chosenValue}`;
+    }
+  },
+  {
+    name: "same quantity in other units is only a formatting difference",
+    check: () => {
+      const [conflict] = conflictsFor(
+        [
+          source("https://a.example.com/x-100", { "Max Voltage": "480 V" }),
+          source("https://b.example.com/x-100", { "Max Voltage": "0.48 kV" })
+        ],
+        "Max Voltage"
+      );
+      return conflict?.equivalent === true ? null : `got ${JSON.stringify(conflict)}`;
+    }
+  },
+  {
+    name: "identical values from two sources are not a conflict",
+    check: () => {
+      const conflicts = conflictsFor(
+        [
+          source("https://a.example.com/x-100", { Enclosure: "NEMA 4X" }),
+          source("https://b.example.com/x-100", { Enclosure: "NEMA 4X" })
+        ],
+        "Enclosure"
+      );
+      return conflicts.length === 0 ? null : `got ${JSON.stringify(conflicts)}`;
+    }
+  },
+  {
+    name: "quantitiesEquivalent across units, text and mismatches",
+    check: () => {
+      const pairs: [string, string, boolean][] = [
+        ["480 V", "0.48 kV", true],
+        ["240,000 Amps", "240 kA", true],
+        ["480", "480 V", true],
+        ["480 V", "240 V", false],
+        ["480 V", "480 Hz", false],
+        ["NEMA 4X", "nema-4x", true],
+        ["NEMA 4X", "NEMA 12", false]
+      ];
+      const wrong = pairs.filter(
+        ([a, b, expected]) => quantitiesEquivalent(parseQuantity(a), parseQuantity(b)) !== expected
+      );
+      return wrong.length === 0 ? null : `wrong for ${wrong.map(([a, b]) => `${a} / ${b}`).join(", ")}`;
+    }
+  }
+];
+
+let failures = 0;
+
+for (const test of CASES) {
+  const problem = test.check();
+  if (problem) {
+    failures++;
+    console.log("FAIL:", test.name, "→", problem);
+  } else {
+    console.log("PASS:", test.name);
+  }
+}
+
+console.log(`\n${CASES.length - failures}/${CASES.length} normalize scenarios passed`);
+if (failures) process.exitCode = 1;
@@ -0,0 +1,93 @@
+// tests/pdfExtract.scenarios.ts
+// Offline: runs against the datasheet PDFs bundled under data/surgepure/pdfs.
+import fs from "fs";
+import path from "path";
+import { extractFromPdfBuffer } from "../services/pdfExtractService.js";
+
+const PDF_DIR = path.join(process.cwd(), "data", "surgepure", "pdfs");
+
+const CASES: {
+  mpn: string;
+  file: string;
+  expect: {
+    ok: boolean;
+    minSpecs?: number;
+    minSections?: number;
+    specs?: Record<string, string>;
+  };
+}[] = [
+  {
+    mpn: "M2-1240-4",
+    file: "M2-1240-4.pdf",
+    expect: {
+      ok: true,
+      minSpecs: 10,
+      specs: { "Max. Clamping Voltage - L-N": "390" }
+    }
+  },
+  {
+    mpn: "M4-1600-4",
+    file: "M4-1600-4.pdf",
+    expect: { ok: true, minSpecs: 5 }
+  },
+  {
+    // Model table cells run together in the text layer: no specs, but the
+    // datasheet text still comes through as verbatim sections
+    mpn: "M1-1208-4",
+    file: "M1-1208-4.pdf",
+    expect: { ok: true, minSections: 5 }
+  }
+];
+
+(async () => {
+  let failures = 0;
+
+  for (const test of CASES) {
+    console.log("\n==============================");
+    console.log("PDF TEST:", test.mpn, "|", test.file);
+
+    const result = await extractFromPdfBuffer({
+      buffer: fs.readFileSync(path.join(PDF_DIR, test.file)),
+      url: `file://${test.file}`,
+      mpn: test.mpn,
+      manufacturer: "SurgePure"
+    });
+
+    const specs = result.product?.specs ?? {};
+    console.log({
+      ok: result.ok,
+      reason: result.reason ?? null,
+      qualityScore: result.qualityScore,
+      specs,
+      verbatimSections: result.product?.verbatimSections?.length ?? 0
+    });
+
+    const problems: string[] = [];
+
+    if (result.ok !== test.expect.ok) {
+      problems.push(`ok ${result.ok}, expected ${test.expect.ok}`);
+    }
+    if (test.expect.minSpecs !== undefined && Object.keys(specs).length < test.expect.minSpecs) {
+      problems.push(`${Object.keys(specs).length} specs, expected at least ${test.expect.minSpecs}`);
+    }
+    const sections = result.product?.verbatimSections?.length ?? 0;
+    if (test.expect.minSections !== undefined && sections < test.expect.minSections) {
+      problems.push(`${sections} verbatim sections, expected at least ${test.expect.minSections}`);
+    }
+    for (const [key, value] of Object.entries(test.expect.specs ?? {})) {
+      if (specs[key] !== value) {
+        problems.push(`${key} = ${specs[key]}, expected ${value}`);
+      }
+    }
+
+    if (problems.length) {
+      failures++;
+      console.log("FAIL:", problems.join("; "));
+    } else {
+      console.log("PASS");
+    }
+  }
+
+  console.log(`\n${CASES.length - failures}/${CASES.length} PDF scenarios passed`);
+  if (failures) process.exitCode = 1;
+})();
@@ -0,0 +1,72 @@
+// tests/pipeline.scenarios.ts
+// End-to-end run of runProductPipeline.
+// Record once with PARTLY_FIXTURE_MODE=record (needs SERPER_API_KEY / GEMINI_API_KEY),
+// then replay offline and deterministically with PARTLY_FIXTURE_MODE=replay.
+// Replay defaults to the hand-made set in tests/fixtures/canned.
+import "dotenv/config";
+import path from "path";
+import { runProductPipeline } from "../services/runProductPipeline.js";
+
+if (process.env.PARTLY_FIXTURE_MODE === "replay") {
+  process.env.PARTLY_FIXTURE_DIR ||= path.join(process.cwd(), "tests", "fixtures", "canned");
+}
+
+const CASES: { mpn: string; manufacturer: string; minSpecRows?: number }[] = [
+  { mpn: "M1-1120-3", manufacturer: "Surge Pure" },
+  { mpn: "M1-1120-3RA", manufacturer: "Surge Pure" },
+  { mpn: "1756-IB16", manufacturer: "Allen-Bradley" },
+  // Has a knowledge base record; its canned search fails, so the run must
+  // carry on from the record alone
+  { mpn: "M1-1240-3", manufacturer: "Surge Pure", minSpecRows: 20 }
+];
+
+(async () => {
+  let failures = 0;
+
+  for (const test of CASES) {
+    console.log("\n==============================");
+    console.log("PIPELINE TEST:", test);
+
+    const problems: string[] = [];
+
+    try {
+      const result = await runProductPipeline({ mpn: test.mpn, manufacturer: test.manufacturer });
+      const final = result.final;
+
+      console.log({
+        mpn: result.mpn,
+        usable: final?.usable,
+        confidence: final?.confidence,
+        failureReason: final?.failureReason ?? null,
+        confidenceBreakdown: final?.confidenceBreakdown ?? null,
+        specRows: final?.specTable?.length ?? 0,
+        keyFeatures: final?.keyFeatures?.length ?? 0
+      });
+
+      if (result.mpn !== test.mpn.toUpperCase()) {
+        problems.push(`mpn ${result.mpn}, expected ${test.mpn.toUpperCase()}`);
+      }
+      if (!final) {
+        problems.push("final is missing");
+      } else if (typeof final.confidence !== "number" || final.confidence < 0 || final.confidence > 1) {
+        problems.push(`confidence out of range: ${final.confidence}`);
+      } else if (final.usable && !final.failureReason && !(final.keyFeatures?.length > 0)) {
+        problems.push("usable result has no key features");
+      } else if ((final.specTable?.length ?? 0) < (test.minSpecRows ?? 0)) {
+        problems.push(`${final.specTable?.length ?? 0} spec rows, expected at least ${test.minSpecRows}`);
+      }
+    } catch (err: any) {
+      problems.push(`threw: ${err?.message ?? String(err)}`);
+    }
+
+    if (problems.length) {
+      failures++;
+      console.log("FAIL:", problems.join("; "));
+    } else {
+      console.log("PASS");
+    }
+  }
+
+  console.log(`\n${CASES.length - failures}/${CASES.length} pipeline scenarios passed`);
+  if (failures) process.exitCode = 1;
+})();
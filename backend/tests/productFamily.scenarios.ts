@@ -0,0 +1,87 @@
+// tests/productFamily.scenarios.ts
+// Offline: a family member without its own datasheet record inherits from
+// its siblings. Each case points KNOWLEDGE_BASE_DIR at a copy of
+// data/surgepure/products holding only the listed siblings.
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { normalizeProducts } from "../services/normalizeProduct.js";
+
+const SOURCE_DIR = path.join(process.cwd(), "data", "surgepure", "products");
+const MISSING = "M1-1208-4";
+
+const CASES: { name: string; siblings: string[]; expect: Record<string, string>; absent: string[] }[] = [
+  {
+    name: "several siblings share specs",
+    siblings: ["M1-1120-3", "M1-1240-3", "M1-1480-3"],
+    expect: { SCCR: "200kAIC", Frequency: "50/60" },
+    absent: ["Nominal AC Line Voltage (VRMS)"]
+  },
+  {
+    name: "single sibling shares datasheet-wide sections only",
+    siblings: ["M1-1480-4"],
+    expect: { SCCR: "200kAIC" },
+    absent: ["Nominal AC Line Voltage (VRMS)", "Frequency"]
+  }
+];
+
+let failures = 0;
+
+for (const test of CASES) {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "family-"));
+  const dir = path.join(root, "data", "surgepure", "products");
+  fs.mkdirSync(dir, { recursive: true });
+  for (const sibling of test.siblings) {
+    fs.copyFileSync(path.join(SOURCE_DIR, `${sibling}.json`), path.join(dir, `${sibling}.json`));
+  }
+
+  const problems: string[] = [];
+
+  try {
+    process.env.KNOWLEDGE_BASE_DIR = path.join(root, "data");
+    const normalized = normalizeProducts([
+      {
+        mpn: MISSING,
+        manufacturer: "SurgePure",
+        sourceUrl: "https://www.example-dist.com/m1-1208-4",
+        sourceType: "distributor",
+        confidence: 0.5,
+        specs: { Voltage: "120/208V" }
+      }
+    ]);
+
+    if (!normalized.family?.members.includes(MISSING)) {
+      problems.push("family not resolved");
+    }
+    if (normalized.family?.inheritedFrom.join(",") !== test.siblings.join(",")) {
+      problems.push(`inheritedFrom [${normalized.family?.inheritedFrom}]`);
+    }
+    for (const [attribute, value] of Object.entries(test.expect)) {
+      const spec = normalized.specs[attribute];
+      if (spec?.value !== value || !spec.inherited) {
+        problems.push(`${attribute} = ${spec?.value} (inherited: ${spec?.inherited})`);
+      }
+    }
+    for (const attribute of test.absent) {
+      if (normalized.specs[attribute]?.inherited) problems.push(`${attribute} should not be inherited`);
+    }
+    if (!normalized.verbatimSections.some(v => v.inherited && v.heading === "Key Feature")) {
+      problems.push("no inherited key features");
+    }
+  } catch (err: any) {
+    problems.push(`threw: ${err?.message ?? String(err)}`);
+  } finally {
+    delete process.env.KNOWLEDGE_BASE_DIR;
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+
+  if (problems.length) {
+    failures++;
+    console.log("FAIL:", test.name, "→", problems.join("; "));
+  } else {
+    console.log("PASS:", test.name);
+  }
+}
+
+console.log(`\n${CASES.length - failures}/${CASES.length} product family scenarios passed`);
+if (failures) process.exitCode = 1;
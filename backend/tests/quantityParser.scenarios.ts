@@ -0,0 +1,45 @@
+// tests/quantityParser.scenarios.ts
+// Offline: pure parsing, no network.
+import { parseQuantity, type Quantity } from "../services/quantityParser.js";
+
+const CASES: {
+  raw: string | number;
+  key?: string;
+  expect: Pick<Quantity, "kind" | "values" | "unit">;
+}[] = [
+  { raw: "240,000 Amps", expect: { kind: "single", values: [240000], unit: "A" } },
+  { raw: "4.5 in", expect: { kind: "single", values: [4.5], unit: "in" } },
+  { raw: 3.2, key: "shipping_weight_lbs", expect: { kind: "single", values: [3.2], unit: "lb" } },
+  { raw: "40/80", key: "max_surge_current_per_mode_ka", expect: { kind: "ratio", values: [40, 80], unit: "kA" } },
+  { raw: "120/208/240V", expect: { kind: "ratio", values: [120, 208, 240], unit: "V" } },
+  { raw: "120V/208V", expect: { kind: "ratio", values: [120, 208], unit: "V" } },
+  { raw: "120 V / 5 A", expect: { kind: "text", values: [], unit: null } },
+  { raw: "50/60 Hz", expect: { kind: "ratio", values: [50, 60], unit: "Hz" } },
+  { raw: "480", key: "Nominal AC Line Voltage (VRMS)", expect: { kind: "single", values: [480], unit: "Vrms" } },
+  { raw: "200kAIC", expect: { kind: "single", values: [200], unit: "kAIC" } },
+  { raw: "-40 to 85 °C", expect: { kind: "range", values: [-40, 85], unit: "°C" } },
+  { raw: "10-20 A", expect: { kind: "range", values: [10, 20], unit: "A" } },
+  { raw: "6¼” x 4½” x 3¼”", expect: { kind: "dimensions", values: [6.25, 4.5, 3.25], unit: "in" } },
+  { raw: "390", key: "Clamping Voltage N G", expect: { kind: "single", values: [390], unit: null } },
+  { raw: "3Ø Delta", expect: { kind: "text", values: [], unit: null } },
+  { raw: "NEMA 4X", expect: { kind: "text", values: [], unit: null } },
+  { raw: "UL 1449, 5th Edition", expect: { kind: "text", values: [], unit: null } },
+  { raw: "N/A", expect: { kind: "text", values: [], unit: null } }
+];
+
+let failures = 0;
+
+for (const test of CASES) {
+  const result = parseQuantity(test.raw, { key: test.key });
+  const actual = { kind: result.kind, values: result.values, unit: result.unit };
+
+  if (JSON.stringify(actual) !== JSON.stringify(test.expect)) {
+    failures++;
+    console.log("FAIL:", JSON.stringify(test.raw), test.key ?? "", "→", actual, "expected", test.expect);
+  } else {
+    console.log("PASS:", JSON.stringify(test.raw), "→", actual);
+  }
+}
+
+console.log(`\n${CASES.length - failures}/${CASES.length} quantity scenarios passed`);
+if (failures) process.exitCode = 1;
@@ -0,0 +1,144 @@
+// tests/resultStore.scenarios.ts
+// Offline: saves runs into a temporary RESULT_STORE_DIR and reads them back.
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+process.env.RESULT_STORE_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "result-store-"));
+
+const { saveResult, getStoredProduct, listStoredProducts } = await import("../services/resultStore.js");
+
+const run = (mpn: string, usable: boolean): any => ({
+  mpn,
+  discovery: { urls: [`https://example.com/${mpn}`] },
+  crawl: { finalUrl: `https://example.com/${mpn}`, html: "<html></html>", crawlConfidence: 0.9 },
+  extraction: { sources: [] },
+  synthesis: null,
+  final: { usable, confidence: usable ? 0.8 : 0.2, failureReason: usable ? null : "NO_PRODUCT_URLS" }
+});
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+saveResult({ mpn: "M1-1120-3", manufacturer: "SurgePure", result: run("M1-1120-3", false) });
+await sleep(5);
+saveResult({ mpn: "M1-1120-3", manufacturer: "Surge Pure", jobId: "job-2", result: run("M1-1120-3", true) });
+await sleep(5);
+saveResult({ mpn: "M1-1480-3", manufacturer: "SurgePure", result: run("M1-1480-3", false) });
+await sleep(5);
+saveResult({ mpn: "1756-IB16", manufacturer: "Allen-Bradley", result: null, error: "Crawl timed out" });
+
+const CASES: { name: string; check: () => string | null }[] = [
+  {
+    name: "latest run wins, earlier runs kept as history",
+    check: () => {
+      const product = getStoredProduct("surgepure", "m1-1120-3");
+      if (product?.latest.status !== "usable") return `latest status ${product?.latest.status}`;
+      if (product.latest.jobId !== "job-2") return `latest job ${product.latest.jobId}`;
+      if (product.history.length !== 1 || product.history[0].status !== "unusable") {
+        return `history ${JSON.stringify(product.history)}`;
+      }
+      return null;
+    }
+  },
+  {
+    name: "crawl stage stored without page HTML",
+    check: () => {
+      const crawl = getStoredProduct("SurgePure", "M1-1120-3")?.latest.stages.crawl;
+      if (!crawl) return "no crawl stage";
+      return "html" in crawl ? "html was stored" : null;
+    }
+  },
+  {
+    name: "pipeline errors are stored with status error",
+    check: () => {
+      const latest = getStoredProduct("Allen-Bradley", "1756-IB16")?.latest;
+      return latest?.status === "error" && latest.error === "Crawl timed out"
+        ? null
+        : `got ${JSON.stringify(latest)}`;
+    }
+  },
+  {
+    name: "status filter uses each product's latest run",
+    check: () => {
+      const usable = listStoredProducts({ status: "usable" }).map(r => r.mpn);
+      const unusable = listStoredProducts({ status: "unusable" }).map(r => r.mpn);
+      if (usable.join() !== "M1-1120-3") return `usable ${usable.join()}`;
+      if (unusable.join() !== "M1-1480-3") return `unusable ${unusable.join()}`;
+      return null;
+    }
+  },
+  {
+    name: "manufacturer filter",
+    check: () => {
+      const mpns = listStoredProducts({ manufacturer: "Surge Pure" }).map(r => r.mpn);
+      return mpns.join() === "M1-1480-3,M1-1120-3" ? null : `got ${mpns.join()}`;
+    }
+  },
+  {
+    name: "list parses one run per product",
+    check: () => {
+      const readFileSync = fs.readFileSync;
+      let reads = 0;
+      (fs as any).readFileSync = (...args: any[]) => {
+        reads++;
+        return (readFileSync as any)(...args);
+      };
+      try {
+        const count = listStoredProducts().length;
+        return count === 3 && reads === 3 ? null : `${count} products, ${reads} files read`;
+      } finally {
+        (fs as any).readFileSync = readFileSync;
+      }
+    }
+  },
+  {
+    name: "unknown product",
+    check: () => (getStoredProduct("SurgePure", "M9-9999-9") === null ? null : "expected null")
+  },
+  {
+    name: "two saves in the same millisecond are both kept",
+    check: () => {
+      const toISOString = Date.prototype.toISOString;
+      Date.prototype.toISOString = () => "2026-01-01T00:00:00.000Z";
+      try {
+        saveResult({ mpn: "M1-1240-3", manufacturer: "SurgePure", jobId: "job-3", result: run("M1-1240-3", true) });
+        saveResult({ mpn: "M1-1240-3", manufacturer: "SurgePure", jobId: "job-3", result: run("M1-1240-3", false) });
+      } finally {
+        Date.prototype.toISOString = toISOString;
+      }
+      const product = getStoredProduct("SurgePure", "M1-1240-3");
+      return product?.history.length === 1 ? null : `${product ? product.history.length + 1 : 0} runs stored`;
+    }
+  },
+  {
+    name: "MPN slugs cannot leave the store",
+    check: () => {
+      const root = path.resolve(process.env.RESULT_STORE_DIR);
+      saveResult({ mpn: "../../escape", manufacturer: "SurgePure", result: null, error: "bad input" });
+      saveResult({ mpn: "..", manufacturer: "SurgePure", result: null, error: "bad input" });
+
+      const dirs = fs.readdirSync(path.join(root, "surgepure"));
+      if (fs.readdirSync(root).some(entry => entry !== "surgepure" && entry !== "allenbradley")) {
+        return `store root holds ${fs.readdirSync(root).join()}`;
+      }
+      return dirs.every(dir => !dir.includes(".")) ? null : `directories ${dirs.join()}`;
+    }
+  }
+];
+
+let failures = 0;
+
+for (const test of CASES) {
+  const problem = test.check();
+  if (problem) {
+    failures++;
+    console.log("FAIL:", test.name, "→", problem);
+  } else {
+    console.log("PASS:", test.name);
+  }
+}
+
+fs.rmSync(process.env.RESULT_STORE_DIR, { recursive: true, force: true });
+
+console.log(`\n${CASES.length - failures}/${CASES.length} result store scenarios passed`);
+if (failures) process.exitCode = 1;
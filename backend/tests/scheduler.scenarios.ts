@@ -0,0 +1,109 @@
+// tests/scheduler.scenarios.ts
+// Offline: bounded concurrency and per-host spacing, with timers only.
+process.env.CRAWL_DOMAIN_DELAY_MS = "100";
+process.env.CRAWL_DOMAIN_CONCURRENCY = "1";
+
+const { runWithConcurrency, withDomainThrottle } = await import("../services/scheduler.js");
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Start times of tasks run through the throttle, relative to the first
+async function throttledStarts(urls: string[], delayMs?: number): Promise<number[]> {
+  const starts: number[] = [];
+  await Promise.all(
+    urls.map(url =>
+      withDomainThrottle(
+        url,
+        async () => {
+          starts.push(Date.now());
+          await sleep(5);
+        },
+        { delayMs }
+      )
+    )
+  );
+  starts.sort((a, b) => a - b);
+  return starts.map(t => t - starts[0]);
+}
+
+// Timers may fire a little early or late; allow a few ms either way
+const TOLERANCE_MS = 5;
+
+const CASES: { name: string; check: () => Promise<string | null> }[] = [
+  {
+    name: "runWithConcurrency never exceeds its limit and runs every item",
+    check: async () => {
+      let active = 0;
+      let peak = 0;
+      const done: number[] = [];
+
+      await runWithConcurrency(Array.from({ length: 12 }, (_, i) => i), 3, async item => {
+        active++;
+        peak = Math.max(peak, active);
+        await sleep(item % 2 ? 15 : 5);
+        active--;
+        done.push(item);
+      });
+
+      if (peak !== 3) return `peak ${peak}, expected 3`;
+      return done.length === 12 ? null : `${done.length} items ran`;
+    }
+  },
+  {
+    name: "runWithConcurrency with more lanes than items",
+    check: async () => {
+      const seen: number[] = [];
+      await runWithConcurrency([1, 2], 8, async item => {
+        seen.push(item);
+      });
+      return seen.sort().join() === "1,2" ? null : `ran ${seen.join()}`;
+    }
+  },
+  {
+    name: "same host requests start at least the delay apart",
+    check: async () => {
+      const starts = await throttledStarts([
+        "https://www.example.com/a",
+        "https://example.com/b",
+        "https://www.example.com/c"
+      ]);
+      const gaps = starts.slice(1).map((t, i) => t - starts[i]);
+      return gaps.every(gap => gap >= 100 - TOLERANCE_MS) ? null : `gaps ${gaps.join(", ")} ms`;
+    }
+  },
+  {
+    name: "different hosts are not spaced against each other",
+    check: async () => {
+      const starts = await throttledStarts([
+        "https://one.example.net/a",
+        "https://two.example.net/a",
+        "https://three.example.net/a"
+      ]);
+      return starts[starts.length - 1] < 50 ? null : `starts ${starts.join(", ")} ms`;
+    }
+  },
+  {
+    name: "crawl-delay lengthens the gap, never shortens it",
+    check: async () => {
+      const longer = await throttledStarts(["https://slow.example.org/a", "https://slow.example.org/b"], 250);
+      const shorter = await throttledStarts(["https://fast.example.org/a", "https://fast.example.org/b"], 10);
+      if (longer[1] < 250 - TOLERANCE_MS) return `crawl-delay gap ${longer[1]} ms`;
+      return shorter[1] >= 100 - TOLERANCE_MS ? null : `short delay gap ${shorter[1]} ms`;
+    }
+  }
+];
+
+let failures = 0;
+
+for (const test of CASES) {
+  const problem = await test.check();
+  if (problem) {
+    failures++;
+    console.log("FAIL:", test.name, "→", problem);
+  } else {
+    console.log("PASS:", test.name);
+  }
+}
+
+console.log(`\n${CASES.length - failures}/${CASES.length} scheduler scenarios passed`);
+if (failures) process.exitCode = 1;
@@ -0,0 +1,107 @@
+// tests/stageCache.scenarios.ts
+// Offline: exercises hits, bypass, invalidate and expiry in a temporary STAGE_CACHE_DIR.
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+process.env.STAGE_CACHE_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "stage-cache-"));
+process.env.PARTLY_FIXTURE_MODE = "off";
+
+const { withStageCache } = await import("../services/stageCache.js");
+
+let calls = 0;
+const produce = async () => `value-${++calls}`;
+
+const CASES: { name: string; run: () => Promise<string | null> }[] = [
+  {
+    name: "second call is served from the cache",
+    run: async () => {
+      const first = await withStageCache("discovery", "q1", undefined, produce);
+      const second = await withStageCache("discovery", "q1", undefined, produce);
+      return first === second ? null : `${first} then ${second}`;
+    }
+  },
+  {
+    name: "stages and keys do not share entries",
+    run: async () => {
+      const discovery = await withStageCache("discovery", "q1", undefined, produce);
+      const crawl = await withStageCache("crawl", "q1", undefined, produce);
+      const other = await withStageCache("discovery", "q2", undefined, produce);
+      return new Set([discovery, crawl, other]).size === 3 ? null : `${discovery}, ${crawl}, ${other}`;
+    }
+  },
+  {
+    name: "bypass neither reads nor writes",
+    run: async () => {
+      const cached = await withStageCache("discovery", "q1", undefined, produce);
+      const bypassed = await withStageCache("discovery", "q1", { bypass: ["discovery"] }, produce);
+      const after = await withStageCache("discovery", "q1", undefined, produce);
+      if (bypassed === cached) return "bypass returned the cached value";
+      return after === cached ? null : `cache changed to ${after}`;
+    }
+  },
+  {
+    name: "bypass for another stage leaves this one cached",
+    run: async () => {
+      const cached = await withStageCache("discovery", "q1", undefined, produce);
+      const value = await withStageCache("discovery", "q1", { bypass: ["crawl"] }, produce);
+      return value === cached ? null : `got ${value}, expected ${cached}`;
+    }
+  },
+  {
+    name: "invalidate stores the fresh value",
+    run: async () => {
+      const cached = await withStageCache("discovery", "q1", undefined, produce);
+      const fresh = await withStageCache("discovery", "q1", { invalidate: true }, produce);
+      const after = await withStageCache("discovery", "q1", undefined, produce);
+      if (fresh === cached) return "invalidate returned the cached value";
+      return after === fresh ? null : `got ${after}, expected ${fresh}`;
+    }
+  },
+  {
+    name: "rejected values are not cached",
+    run: async () => {
+      const first = await withStageCache("crawl", "https://example.com/x", undefined, produce, () => false);
+      const second = await withStageCache("crawl", "https://example.com/x", undefined, produce, () => false);
+      return first !== second ? null : "rejected value was cached";
+    }
+  },
+  {
+    name: "expired entries are refreshed",
+    run: async () => {
+      process.env.SYNTHESIS_CACHE_TTL_MS = "1";
+      const first = await withStageCache("synthesis", { input: "abc" }, undefined, produce);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      const second = await withStageCache("synthesis", { input: "abc" }, undefined, produce);
+      delete process.env.SYNTHESIS_CACHE_TTL_MS;
+      return first !== second ? null : "expired entry was served";
+    }
+  },
+  {
+    name: "TTL 0 turns the stage off",
+    run: async () => {
+      process.env.CRAWL_CACHE_TTL_MS = "0";
+      const first = await withStageCache("crawl", "https://example.com/y", undefined, produce);
+      const second = await withStageCache("crawl", "https://example.com/y", undefined, produce);
+      delete process.env.CRAWL_CACHE_TTL_MS;
+      return first !== second ? null : "disabled stage served a cached value";
+    }
+  }
+];
+
+let failures = 0;
+
+for (const test of CASES) {
+  const problem = await test.run();
+  if (problem) {
+    failures++;
+    console.log("FAIL:", test.name, "→", problem);
+  } else {
+    console.log("PASS:", test.name);
+  }
+}
+
+fs.rmSync(process.env.STAGE_CACHE_DIR, { recursive: true, force: true });
+
+console.log(`\n${CASES.length - failures}/${CASES.length} stage cache scenarios passed`);
+if (failures) process.exitCode = 1;
@@ -0,0 +1,178 @@
+// tests/structuredData.scenarios.ts
+// Offline: schema.org Product data from JSON-LD, microdata and RDFa.
+import { extractFromHtml } from "../services/extractService.js";
+
+const page = (body: string) =>
+  `<html><head><title>M1-1480-3</title></head><body><h1>SurgePure M1-1480-3</h1>${body}</body></html>`;
+
+const jsonLd = (data: unknown) => `<script type="application/ld+json">${JSON.stringify(data)}</script>`;
+
+const CASES: {
+  name: string;
+  html: string;
+  specs: Record<string, string>;
+  absent?: string[];
+  offers?: Record<string, string | null> | null;
+  evidence: string;
+  image?: string;
+}[] = [
+  {
+    name: "JSON-LD Product with properties and offer",
+    html: page(
+      jsonLd({
+        "@context": "https://schema.org",
+        "@type": "Product",
+        sku: "SP-1480",
+        mpn: "M1-1480-3",
+        gtin13: "0123456789012",
+        brand: { "@type": "Brand", name: "SurgePure" },
+        image: ["/img/m1-1480-3.jpg"],
+        additionalProperty: [
+          { "@type": "PropertyValue", name: "SCCR", value: "200", unitText: "kA" },
+          { "@type": "PropertyValue", name: "Enclosure", value: "NEMA 4X" }
+        ],
+        offers: { "@type": "Offer", price: "1299.00", priceCurrency: "USD", availability: "https://schema.org/InStock" }
+      })
+    ),
+    specs: {
+      SKU: "SP-1480",
+      MPN: "M1-1480-3",
+      "GTIN-13": "0123456789012",
+      Brand: "SurgePure",
+      SCCR: "200 kA",
+      Enclosure: "NEMA 4X"
+    },
+    // Offers stay out of specs
+    absent: ["Price", "Availability"],
+    offers: { price: "1299.00", currency: "USD", availability: "InStock", itemCondition: null },
+    evidence: "json-ld",
+    image: "https://shop.example.com/img/m1-1480-3.jpg"
+  },
+  {
+    name: "JSON-LD ProductGroup picks the matching variant",
+    html: page(
+      jsonLd({
+        "@context": "https://schema.org",
+        "@graph": [
+          {
+            "@type": "ProductGroup",
+            name: "M1 Series",
+            productGroupID: "M1",
+            brand: "SurgePure",
+            additionalProperty: [{ name: "Warranty", value: "10 years" }],
+            hasVariant: [
+              { "@type": "Product", sku: "M1-1240-3", additionalProperty: [{ name: "Voltage", value: "240 V" }] },
+              { "@type": "Product", sku: "M1-1480-3", additionalProperty: [{ name: "Voltage", value: "480 V" }] }
+            ]
+          }
+        ]
+      })
+    ),
+    specs: { SKU: "M1-1480-3", Voltage: "480 V", Warranty: "10 years", Brand: "SurgePure", "Product Group ID": "M1" },
+    evidence: "json-ld"
+  },
+  {
+    name: "microdata with nested brand and properties",
+    html: page(`
+      <div itemscope itemtype="https://schema.org/Product">
+        <span itemprop="name">M1-1480-3</span>
+        <meta itemprop="sku" content="M1-1480-3">
+        <div itemprop="brand" itemscope itemtype="https://schema.org/Brand"><span itemprop="name">SurgePure</span></div>
+        <img itemprop="image" src="/img/m1.png">
+        <div itemprop="additionalProperty" itemscope itemtype="https://schema.org/PropertyValue">
+          <span itemprop="name">Modes of Protection</span><span itemprop="value">10</span>
+        </div>
+        <div itemprop="offers" itemscope itemtype="https://schema.org/Offer">
+          <link itemprop="availability" href="https://schema.org/PreOrder">
+        </div>
+      </div>`),
+    specs: { SKU: "M1-1480-3", Brand: "SurgePure", "Modes of Protection": "10" },
+    absent: ["Availability"],
+    offers: { price: null, currency: null, availability: "PreOrder", itemCondition: null },
+    evidence: "microdata",
+    image: "https://shop.example.com/img/m1.png"
+  },
+  {
+    name: "related products without the MPN are ignored",
+    html: page(
+      jsonLd([
+        { "@context": "https://schema.org", "@type": "Product", sku: "M1-1240-3", gtin13: "0000000001240", offers: { price: "999.00" } },
+        { "@context": "https://schema.org", "@type": "Product", sku: "M2-1480-4", gtin13: "0000000001480", offers: { price: "1499.00" } }
+      ]) + `<table><tr><td>SKU</td><td>M1-1480-3</td></tr><tr><td>Voltage</td><td>480 V</td></tr><tr><td>Phase</td><td>3</td></tr></table>`
+    ),
+    specs: { SKU: "M1-1480-3", Voltage: "480 V" },
+    absent: ["GTIN-13", "Price"],
+    offers: null,
+    evidence: "table"
+  },
+  {
+    name: "ProductGroup without the MPN's variant is ignored",
+    html: page(
+      jsonLd({
+        "@context": "https://schema.org",
+        "@type": "ProductGroup",
+        productGroupID: "M1",
+        hasVariant: [
+          { "@type": "Product", sku: "M1-1240-3" },
+          { "@type": "Product", sku: "M1-1208-3" }
+        ]
+      })
+    ),
+    specs: {},
+    absent: ["SKU", "Product Group ID"],
+    evidence: "json-ld"
+  },
+  {
+    name: "RDFa Product",
+    html: page(`
+      <div vocab="https://schema.org/" typeof="Product">
+        <span property="mpn">M1-1480-3</span>
+        <div property="brand" typeof="Brand"><span property="name">SurgePure</span></div>
+        <div property="isVariantOf" typeof="ProductGroup"><span property="name">M1 Series</span></div>
+      </div>`),
+    specs: { MPN: "M1-1480-3", Brand: "SurgePure", "Product Group": "M1 Series" },
+    evidence: "rdfa"
+  }
+];
+
+let failures = 0;
+
+for (const test of CASES) {
+  const result = extractFromHtml({
+    html: test.html,
+    sourceUrl: "https://shop.example.com/products/m1-1480-3",
+    mpn: "M1-1480-3",
+    manufacturer: "SurgePure"
+  });
+
+  const problems: string[] = [];
+
+  for (const [key, value] of Object.entries(test.specs)) {
+    if (result.specs[key] !== value) problems.push(`${key}=${result.specs[key] ?? "missing"}, expected ${value}`);
+    else if (result.specEvidence[key] !== test.evidence) {
+      problems.push(`${key} evidence ${result.specEvidence[key]}, expected ${test.evidence}`);
+    }
+  }
+
+  for (const key of test.absent ?? []) {
+    if (key in result.specs) problems.push(`unexpected ${key}=${result.specs[key]}`);
+  }
+
+  if (test.offers !== undefined && JSON.stringify(result.offers) !== JSON.stringify(test.offers)) {
+    problems.push(`offers ${JSON.stringify(result.offers)}, expected ${JSON.stringify(test.offers)}`);
+  }
+
+  if (test.image && result.imageEvidence[test.image] !== test.evidence) {
+    problems.push(`image ${test.image} evidence ${result.imageEvidence[test.image] ?? "missing"}`);
+  }
+
+  if (problems.length) {
+    failures++;
+    console.log("FAIL:", test.name, "→", problems.join("; "));
+  } else {
+    console.log("PASS:", test.name);
+  }
+}
+
+console.log(`\n${CASES.length - failures}/${CASES.length} structured data scenarios passed`);
+if (failures) process.exitCode = 1;
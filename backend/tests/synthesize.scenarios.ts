@@ -1,4 +1,5 @@
 // tests/synthesize.scenarios.ts
+// Uses LLM_PROVIDER (gemini by default); LLM_PROVIDER=mock runs offline.
 import "dotenv/config";
 import { synthesizeProductContent } from "../services/synthesizeService.js";
 
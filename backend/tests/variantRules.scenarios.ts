@@ -0,0 +1,70 @@
+// tests/variantRules.scenarios.ts
+// Offline: resolves MPNs against data/variant-rules.json.
+import { resolveVariant } from "../services/variantRules.js";
+
+// Bundled config must not follow the knowledge base to another directory
+process.env.KNOWLEDGE_BASE_DIR = "/nonexistent/knowledge-base";
+
+const CASES: {
+  mpn: string;
+  manufacturer: string;
+  baseMpn: string;
+  rules: string[];
+  specs?: Record<string, string>;
+}[] = [
+  {
+    mpn: "M1-1120-3RA",
+    manufacturer: "Surge Pure",
+    baseMpn: "M1-1120-3",
+    rules: ["surgepure-ra", "surgepure-voltage-code"],
+    specs: { "Remote Alarm": "Yes", "Nominal AC Line Voltage (VRMS)": "120/240" }
+  },
+  {
+    mpn: "M2-1480-4",
+    manufacturer: "SurgePure",
+    baseMpn: "M2-1480-4",
+    rules: ["surgepure-voltage-code"],
+    specs: { "AC Service Type": "3Ø WYE" }
+  },
+  {
+    mpn: "1756-IB16K",
+    manufacturer: "Allen-Bradley",
+    baseMpn: "1756-IB16",
+    rules: ["allen-bradley-conformal-coat"],
+    specs: { "Conformal Coating": "Yes" }
+  },
+  { mpn: "1756-IB16", manufacturer: "Allen-Bradley", baseMpn: "1756-IB16", rules: [] },
+  // Suffix rules belong to their manufacturer only
+  { mpn: "XYZ-100RA", manufacturer: "Acme", baseMpn: "XYZ-100RA", rules: [] }
+];
+
+let failures = 0;
+
+for (const test of CASES) {
+  const resolution = resolveVariant(test.mpn, test.manufacturer);
+  const problems: string[] = [];
+
+  if (resolution.baseMpn !== test.baseMpn) {
+    problems.push(`baseMpn ${resolution.baseMpn}, expected ${test.baseMpn}`);
+  }
+
+  const ids = resolution.rules.map(r => r.id);
+  if (ids.join(",") !== test.rules.join(",")) {
+    problems.push(`rules [${ids}], expected [${test.rules}]`);
+  }
+
+  const specs = Object.assign({}, ...resolution.rules.map(r => r.specs));
+  for (const [key, value] of Object.entries(test.specs ?? {})) {
+    if (specs[key] !== value) problems.push(`${key} = ${specs[key]}, expected ${value}`);
+  }
+
+  if (problems.length) {
+    failures++;
+    console.log("FAIL:", test.mpn, "→", problems.join("; "));
+  } else {
+    console.log("PASS:", test.mpn, "→", resolution.baseMpn, ids);
+  }
+}
+
+console.log(`\n${CASES.length - failures}/${CASES.length} variant rule scenarios passed`);
+if (failures) process.exitCode = 1;
@@ -10,6 +10,8 @@ export interface SpecAttribute {
   unit: string;
   // sourceId is optional and used for mapping technical specs to grounding citations.
   sourceId?: number;
+  // True when the value was inherited from a sibling model in the same product family.
+  inherited?: boolean;
 }
 
 export interface EnrichedComponentData extends RawComponentData {
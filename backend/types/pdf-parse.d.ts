@@ -0,0 +1,15 @@
+// Minimal typings for pdf-parse (the package ships none)
+declare module "pdf-parse" {
+  interface PdfParseResult {
+    numpages: number;
+    numrender: number;
+    info: any;
+    metadata: any;
+    text: string;
+    version: string | null;
+  }
+
+  function pdf(dataBuffer: Buffer, options?: Record<string, unknown>): Promise<PdfParseResult>;
+
+  export default pdf;
+}